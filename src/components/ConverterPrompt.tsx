@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { Input } from './ui/input';
+import type { PortType } from '../types/core';
+import type { Coercion, ConverterKind } from '../types/compatibility';
+import { formatPortType } from '../types/port-types';
+
+// A drawn connection whose types only fit through a conversion
+export interface PendingCoercion {
+  readonly sourceType: PortType;
+  readonly targetType: PortType;
+  readonly coercion: Coercion & { readonly converter: ConverterKind };
+}
+
+interface ConverterPromptProps {
+  // Closed while nothing is pending
+  pending?: PendingCoercion;
+  onInsert: (field?: string) => void;
+  onConnect: () => void;
+  onCancel: () => void;
+}
+
+const converterLabels: Record<ConverterKind, string> = {
+  toString: 'To String',
+  parseNumber: 'Parse Number',
+  wrapInArray: 'Wrap in Array',
+  pickField: 'Pick Field',
+};
+
+const levelDescriptions: Record<Coercion['level'], string> = {
+  safe: 'The edge can convert values itself without losing information.',
+  lossy:
+    'The edge can convert values itself, but may lose information or fail on some values.',
+  forbidden: 'The values need a converter that says how to convert them.',
+};
+
+export const ConverterPrompt = ({
+  pending,
+  onInsert,
+  onConnect,
+  onCancel,
+}: ConverterPromptProps) => {
+  const [field, setField] = useState('');
+  const converter = pending?.coercion.converter;
+
+  return (
+    <AlertDialog
+      open={pending !== undefined}
+      onOpenChange={(open) => {
+        if (!open) {
+          setField('');
+          onCancel();
+        }
+      }}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Insert a converter?</AlertDialogTitle>
+          {pending && (
+            <AlertDialogDescription>
+              {formatPortType(pending.sourceType)} does not connect to{' '}
+              {formatPortType(pending.targetType)} as it is.{' '}
+              {levelDescriptions[pending.coercion.level]}
+            </AlertDialogDescription>
+          )}
+        </AlertDialogHeader>
+        {converter === 'pickField' && (
+          <Input
+            value={field}
+            onChange={(e) => setField(e.target.value)}
+            placeholder="Field path, e.g. user.id"
+            className="font-mono text-xs"
+          />
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          {pending && pending.coercion.level !== 'forbidden' && (
+            <AlertDialogAction onClick={onConnect}>
+              Connect directly
+            </AlertDialogAction>
+          )}
+          {converter && (
+            <AlertDialogAction
+              disabled={converter === 'pickField' && field.trim() === ''}
+              onClick={() =>
+                onInsert(converter === 'pickField' ? field.trim() : undefined)
+              }
+            >
+              Insert {converterLabels[converter]}
+            </AlertDialogAction>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import type { WorkflowNode } from '../types/core';
+import type { NodeInputs } from '../types/execution';
+import type { PausedNode } from '../types/debug';
+import { formatRunValue } from '../utils/run-history';
+
+interface DebuggerPanelProps {
+  paused: PausedNode;
+  node: WorkflowNode | undefined;
+  onStep: (inputs?: NodeInputs) => void;
+  onContinue: (inputs?: NodeInputs) => void;
+  onAbort: () => void;
+}
+
+type ParsedDrafts =
+  | { readonly success: true; readonly inputs: NodeInputs | undefined }
+  | { readonly success: false; readonly message: string };
+
+/**
+ * Parse the edited inputs; untouched ports keep their original values so
+ * values JSON cannot express survive
+ */
+const parseDrafts = (
+  original: NodeInputs,
+  drafts: Readonly<Record<string, string>>
+): ParsedDrafts => {
+  const edited: NodeInputs = {};
+  for (const [portId, draft] of Object.entries(drafts)) {
+    if (draft === formatRunValue(original[portId])) {
+      continue;
+    }
+    try {
+      edited[portId] = JSON.parse(draft);
+    } catch (error) {
+      return {
+        success: false,
+        message: `${portId}: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+  return {
+    success: true,
+    inputs:
+      Object.keys(edited).length > 0 ? { ...original, ...edited } : undefined,
+  };
+};
+
+// Remount per pause (via `key`) so drafts start from the new inputs
+export const DebuggerPanel = ({
+  paused,
+  node,
+  onStep,
+  onContinue,
+  onAbort,
+}: DebuggerPanelProps) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      Object.entries(paused.inputs).map(([portId, value]) => [
+        portId,
+        formatRunValue(value),
+      ])
+    )
+  );
+  const parsed = parseDrafts(paused.inputs, drafts);
+
+  return (
+    <Card className="bg-slate-800 border-amber-600 rounded-none border-x-0 border-t-0">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm text-amber-300">
+          Paused · {node?.label ?? paused.nodeId}
+          <span className="ml-2 text-[10px] text-slate-400">
+            ({paused.reason})
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {Object.keys(drafts).length === 0 ? (
+          <p className="text-[10px] text-slate-500">No inputs</p>
+        ) : (
+          Object.entries(drafts).map(([portId, draft]) => (
+            <div key={portId} className="space-y-1">
+              <label className="text-xs text-slate-400">{portId}</label>
+              <Textarea
+                value={draft}
+                onChange={(e) =>
+                  setDrafts((prev) => ({ ...prev, [portId]: e.target.value }))
+                }
+                className="h-20 font-mono text-[10px] bg-slate-900 border-slate-700 text-slate-200"
+              />
+            </div>
+          ))
+        )}
+        {!parsed.success && (
+          <p className="text-xs text-red-300">{parsed.message}</p>
+        )}
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            disabled={!parsed.success}
+            onClick={() => parsed.success && onStep(parsed.inputs)}
+            className="flex-1 h-7 text-xs bg-blue-600 hover:bg-blue-700"
+          >
+            Step
+          </Button>
+          <Button
+            size="sm"
+            disabled={!parsed.success}
+            onClick={() => parsed.success && onContinue(parsed.inputs)}
+            className="flex-1 h-7 text-xs bg-emerald-600 hover:bg-emerald-700"
+          >
+            Continue
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onAbort}
+            className="flex-1 h-7 text-xs bg-slate-700 border-slate-600 hover:bg-slate-600"
+          >
+            Abort
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,55 @@
+import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import type { WorkflowNode } from '../types/core';
+import { errorPolicies, isErrorPolicy, type ErrorPolicy } from '../types/nodes';
+
+interface ErrorPolicyEditorProps {
+  node: WorkflowNode;
+  onChange: (policy: ErrorPolicy) => void;
+}
+
+const policyDescriptions: Record<ErrorPolicy, string> = {
+  fail: 'A failure stops the run.',
+  continue: 'Outputs are left empty and downstream nodes still run.',
+  route: 'The failure is sent to the Error port instead of the outputs.',
+};
+
+export const ErrorPolicyEditor = ({
+  node,
+  onChange,
+}: ErrorPolicyEditorProps) => {
+  const onError = node.data?.onError;
+  const current = isErrorPolicy(onError) ? onError : 'fail';
+
+  return (
+    <Card className="bg-slate-800 border-slate-700 rounded-none border-x-0 border-t-0">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm text-slate-100">
+          On Error · {node.label}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="flex gap-2">
+          {errorPolicies.map((policy) => (
+            <Button
+              key={policy}
+              variant={policy === current ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onChange(policy)}
+              className={
+                policy === current
+                  ? 'flex-1 h-7 text-xs bg-blue-600 hover:bg-blue-700'
+                  : 'flex-1 h-7 text-xs bg-slate-700 border-slate-600 hover:bg-slate-600'
+              }
+            >
+              {policy}
+            </Button>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-400">
+          {policyDescriptions[current]}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,7 +1,15 @@
 import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
 import { Button } from './ui/button';
 import { ScrollArea } from './ui/scroll-area';
-import { Zap, GitBranch, Wand2, Send, Database, Plus } from 'lucide-react';
+import {
+  Zap,
+  GitBranch,
+  Wand2,
+  Send,
+  Database,
+  Workflow,
+  Plus,
+} from 'lucide-react';
 import type { NodeCategory } from '../types/core';
 import { getCategoryColor } from '../utils/type-helpers';
 
@@ -71,6 +79,26 @@ const nodeCategories: Array<{
         label: 'Reduce',
         description: 'Reduce array',
       },
+      {
+        type: 'transform.toString',
+        label: 'To String',
+        description: 'Convert to text',
+      },
+      {
+        type: 'transform.parseNumber',
+        label: 'Parse Number',
+        description: 'Parse text as number',
+      },
+      {
+        type: 'transform.wrapInArray',
+        label: 'Wrap in Array',
+        description: 'Wrap value in array',
+      },
+      {
+        type: 'transform.pickField',
+        label: 'Pick Field',
+        description: 'Read an object field',
+      },
     ],
   },
   {
@@ -106,6 +134,17 @@ const nodeCategories: Array<{
       },
     ],
   },
+  {
+    category: 'flow',
+    icon: <Workflow className="w-4 h-4" />,
+    nodes: [
+      {
+        type: 'flow.subworkflow',
+        label: 'Subworkflow',
+        description: 'Run another workflow',
+      },
+    ],
+  },
 ];
 
 export const NodePalette = ({ onNodeSelect }: NodePaletteProps) => {
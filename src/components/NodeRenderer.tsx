@@ -1,6 +1,13 @@
-import { memo } from 'react';
-import { Handle, Position, NodeProps } from '@xyflow/react';
+import { memo, useEffect } from 'react';
+import {
+  Handle,
+  Position,
+  useUpdateNodeInternals,
+  type NodeProps,
+} from '@xyflow/react';
+import { Pin } from 'lucide-react';
 import type { WorkflowNode } from '../types/core';
+import { getPinnedOutputs } from '../types/nodes';
 import {
   getPortTypeColor,
   getPortTypeLabel,
@@ -9,9 +16,22 @@ import {
 import { Badge } from './ui/badge';
 import { Card } from './ui/card';
 
-export const NodeRenderer = memo(({ data }: NodeProps<WorkflowNode>) => {
-  const node = data;
+// React Flow only knows `data` as a plain record; WorkflowCanvas stores the
+// full WorkflowNode there
+export const NodeRenderer = memo(({ id, data }: NodeProps) => {
+  const node = data as unknown as WorkflowNode;
   const categoryColor = getCategoryColor(node.category);
+  const updateNodeInternals = useUpdateNodeInternals();
+  const pins = getPinnedOutputs(node);
+
+  // Handles are derived from ports (e.g. switch cases), so re-measure them
+  // whenever the port list changes
+  const portSignature = [...node.inputs, ...node.outputs]
+    .map((port) => port.id)
+    .join('|');
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, portSignature, updateNodeInternals]);
 
   return (
     <Card className="min-w-[200px] bg-slate-800 border-slate-700 shadow-lg">
@@ -90,6 +110,12 @@ export const NodeRenderer = memo(({ data }: NodeProps<WorkflowNode>) => {
                     {getPortTypeLabel(output.portType)}
                   </Badge>
                   <span className="text-slate-300">{output.name}</span>
+                  {pins && output.id in pins && (
+                    <Pin
+                      className="w-3 h-3 text-amber-400"
+                      aria-label="Pinned"
+                    />
+                  )}
                 </div>
               </div>
             ))}
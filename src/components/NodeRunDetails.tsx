@@ -0,0 +1,71 @@
+import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
+import { Badge } from './ui/badge';
+import type { WorkflowNode } from '../types/core';
+import type { NodeRun } from '../hooks/useExecutionEvents';
+import { getRunStatusColor } from '../utils/type-helpers';
+import { formatRunValue } from '../utils/run-history';
+
+interface NodeRunDetailsProps {
+  node: WorkflowNode;
+  run: NodeRun;
+}
+
+// --- Leaf components first ---
+
+interface PortValuesProps {
+  title: string;
+  values: Record<string, unknown>;
+}
+
+const PortValues = ({ title, values }: PortValuesProps) => (
+  <div className="space-y-1">
+    <h4 className="text-xs font-semibold text-slate-300">{title}</h4>
+    {Object.keys(values).length === 0 ? (
+      <p className="text-[10px] text-slate-500">None</p>
+    ) : (
+      Object.entries(values).map(([portId, value]) => (
+        <div key={portId} className="text-xs">
+          <div className="text-slate-400">{portId}</div>
+          <pre className="p-2 bg-slate-900 rounded text-[10px] text-slate-200 overflow-x-auto max-h-40">
+            {formatRunValue(value)}
+          </pre>
+        </div>
+      ))
+    )}
+  </div>
+);
+
+// --- Root export ---
+
+export const NodeRunDetails = ({ node, run }: NodeRunDetailsProps) => (
+  <Card className="bg-slate-800 border-slate-700 rounded-none border-x-0 border-t-0">
+    <CardHeader className="pb-3">
+      <CardTitle className="text-sm text-slate-100 flex items-center gap-2">
+        Last Run · {node.label}
+        <Badge
+          variant="outline"
+          className="text-[10px] px-1 py-0"
+          style={{
+            borderColor: getRunStatusColor(run.status),
+            color: getRunStatusColor(run.status),
+          }}
+        >
+          {run.status}
+        </Badge>
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="space-y-3">
+      {run.pinned && (
+        <p className="text-[10px] text-amber-400">Outputs were pinned</p>
+      )}
+      {run.durationMs !== undefined && (
+        <p className="text-[10px] text-slate-400">{run.durationMs}ms</p>
+      )}
+      {run.error && (
+        <p className="text-xs text-red-300 break-words">{run.error}</p>
+      )}
+      {run.inputs && <PortValues title="Inputs" values={run.inputs} />}
+      {run.outputs && <PortValues title="Outputs" values={run.outputs} />}
+    </CardContent>
+  </Card>
+);
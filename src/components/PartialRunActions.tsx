@@ -0,0 +1,41 @@
+import { Card, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { ArrowRightFromLine, ArrowRightToLine } from 'lucide-react';
+import type { PartialExecution, WorkflowNode } from '../types/core';
+
+interface PartialRunActionsProps {
+  node: WorkflowNode;
+  disabled: boolean;
+  onRun: (partial: PartialExecution) => void;
+}
+
+export const PartialRunActions = ({
+  node,
+  disabled,
+  onRun,
+}: PartialRunActionsProps) => (
+  <Card className="bg-slate-800 border-slate-700 rounded-none border-x-0 border-t-0">
+    <CardContent className="pt-4 flex gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={disabled}
+        onClick={() => onRun({ mode: 'to', nodeId: node.id })}
+        className="flex-1 h-7 text-xs bg-slate-700 border-slate-600 hover:bg-slate-600"
+      >
+        <ArrowRightToLine className="w-3 h-3 mr-1" />
+        Execute to here
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={disabled}
+        onClick={() => onRun({ mode: 'from', nodeId: node.id })}
+        className="flex-1 h-7 text-xs bg-slate-700 border-slate-600 hover:bg-slate-600"
+      >
+        <ArrowRightFromLine className="w-3 h-3 mr-1" />
+        Execute from here
+      </Button>
+    </CardContent>
+  </Card>
+);
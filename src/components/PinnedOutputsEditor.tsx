@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import type { OutputPort, WorkflowNode } from '../types/core';
+import { INACTIVE_BRANCH, type NodeOutputs } from '../types/execution';
+import { getPinnedOutputs } from '../types/nodes';
+
+interface PinnedOutputsEditorProps {
+  node: WorkflowNode;
+  // Outputs of the node in the last run, offered as values to pin
+  lastOutputs?: NodeOutputs;
+  onPin: (portId: string, value: unknown) => void;
+  onUnpin: (portId: string) => void;
+}
+
+const formatPin = (value: unknown): string =>
+  value === undefined ? '' : JSON.stringify(value, null, 2);
+
+// --- Leaf components first ---
+
+interface PinRowProps {
+  port: OutputPort;
+  pinned: boolean;
+  pinnedValue: unknown;
+  lastValue: unknown;
+  onPin: (value: unknown) => void;
+  onUnpin: () => void;
+}
+
+const PinRow = ({
+  port,
+  pinned,
+  pinnedValue,
+  lastValue,
+  onPin,
+  onUnpin,
+}: PinRowProps) => {
+  const [draft, setDraft] = useState(() => formatPin(pinnedValue));
+  const [error, setError] = useState<string | null>(null);
+  const hasLastValue = lastValue !== undefined && lastValue !== INACTIVE_BRANCH;
+
+  const pinDraft = () => {
+    try {
+      onPin(JSON.parse(draft));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="bg-slate-700 p-2 rounded space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-slate-200">{port.name}</span>
+        {pinned && <span className="text-[10px] text-amber-400">pinned</span>}
+      </div>
+      <Textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder="JSON value"
+        className="h-16 font-mono text-[10px] bg-slate-900 border-slate-600 text-slate-200"
+      />
+      {error && <p className="text-[10px] text-red-300">{error}</p>}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={pinDraft}
+          disabled={draft.trim() === ''}
+          className="flex-1 h-6 text-[10px] bg-blue-600 hover:bg-blue-700"
+        >
+          Pin
+        </Button>
+        {hasLastValue && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setDraft(formatPin(lastValue));
+              onPin(lastValue);
+            }}
+            className="flex-1 h-6 text-[10px] bg-slate-800 border-slate-600"
+          >
+            Pin last run
+          </Button>
+        )}
+        {pinned && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onUnpin}
+            className="flex-1 h-6 text-[10px] bg-slate-800 border-slate-600"
+          >
+            Unpin
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- Root export ---
+
+export const PinnedOutputsEditor = ({
+  node,
+  lastOutputs,
+  onPin,
+  onUnpin,
+}: PinnedOutputsEditorProps) => {
+  const pins = getPinnedOutputs(node) ?? {};
+
+  return (
+    <Card className="bg-slate-800 border-slate-700 rounded-none border-x-0 border-t-0">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm text-slate-100">
+          Pinned Outputs · {node.label}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <p className="text-[10px] text-slate-400">
+          A pinned node is not run; nodes that only feed it are skipped.
+        </p>
+        {node.outputs.map((port) => (
+          <PinRow
+            key={port.id}
+            port={port}
+            pinned={port.id in pins}
+            pinnedValue={pins[port.id]}
+            lastValue={lastOutputs?.[port.id]}
+            onPin={(value) => onPin(port.id, value)}
+            onUnpin={() => onUnpin(port.id)}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,267 @@
+import { useMemo, useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import type { RunId } from '../types/core';
+import type { IntendedSideEffect, TypeViolation } from '../types/execution';
+import type { OutputChange, RunRecord, RunStatus } from '../types/history';
+import { diffRunOutputs, formatRunValue } from '../utils/run-history';
+
+interface RunHistoryPanelProps {
+  runs: ReadonlyArray<RunRecord>;
+  onClear: () => void;
+}
+
+type StatusFilter = RunStatus | 'all';
+
+const statusFilters: ReadonlyArray<StatusFilter> = [
+  'all',
+  'succeeded',
+  'failed',
+  'cancelled',
+];
+
+const statusColors: Record<RunStatus, string> = {
+  succeeded: '#10B981',
+  failed: '#EF4444',
+  cancelled: '#94A3B8',
+};
+
+// --- Leaf components first ---
+
+const StatusBadge = ({ status }: { status: RunStatus }) => (
+  <Badge
+    variant="outline"
+    className="text-[10px] px-1 py-0"
+    style={{ borderColor: statusColors[status], color: statusColors[status] }}
+  >
+    {status}
+  </Badge>
+);
+
+interface RunRowProps {
+  run: RunRecord;
+  selected: boolean;
+  onToggle: () => void;
+}
+
+const RunRow = ({ run, selected, onToggle }: RunRowProps) => (
+  <button
+    type="button"
+    onClick={onToggle}
+    className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-left text-xs ${
+      selected ? 'bg-slate-600' : 'bg-slate-700 hover:bg-slate-600'
+    }`}
+  >
+    <span className="text-slate-200">
+      {new Date(run.startedAt).toLocaleTimeString()}
+    </span>
+    {run.mode === 'dry-run' && (
+      <span className="text-[10px] text-sky-300">dry run</span>
+    )}
+    <span className="text-slate-400">{run.durationMs}ms</span>
+    <StatusBadge status={run.status} />
+  </button>
+);
+
+const ChangeRow = ({ change }: { change: OutputChange }) => (
+  <div className="text-xs space-y-1">
+    <div className="text-slate-300">
+      {change.nodeId}.{change.portId}{' '}
+      <span className="text-slate-500">({change.kind})</span>
+    </div>
+    {change.kind !== 'added' && (
+      <pre className="p-2 bg-red-950 rounded text-[10px] text-red-200 overflow-x-auto max-h-32">
+        {formatRunValue(change.before)}
+      </pre>
+    )}
+    {change.kind !== 'removed' && (
+      <pre className="p-2 bg-emerald-950 rounded text-[10px] text-emerald-200 overflow-x-auto max-h-32">
+        {formatRunValue(change.after)}
+      </pre>
+    )}
+  </div>
+);
+
+const SideEffectRow = ({ effect }: { effect: IntendedSideEffect }) => (
+  <div className="text-xs space-y-1">
+    <div className="text-slate-300">
+      {effect.label} <span className="text-slate-500">({effect.nodeType})</span>
+    </div>
+    <pre className="p-2 bg-slate-900 rounded text-[10px] text-sky-200 overflow-x-auto max-h-32">
+      {formatRunValue({ inputs: effect.inputs, config: effect.config })}
+    </pre>
+  </div>
+);
+
+const TypeViolationRow = ({ violation }: { violation: TypeViolation }) => (
+  <div className="text-xs space-y-1">
+    <div className="text-slate-300">
+      {`${violation.source}.${violation.sourcePort} → ${violation.target}.${violation.targetPort}`}{' '}
+      <span className="text-slate-500">({violation.edgeId})</span>
+    </div>
+    <p className="text-[10px] text-amber-200">
+      {violation.path && `${violation.path}: `}
+      {violation.message}, expected {violation.expected}
+    </p>
+  </div>
+);
+
+// --- Composite components (depend on leaves above) ---
+
+const RunDetails = ({ run }: { run: RunRecord }) => (
+  <div className="space-y-2">
+    <h4 className="text-xs font-semibold text-slate-300">
+      Run {run.runId.slice(0, 8)}
+    </h4>
+    {run.error && <p className="text-xs text-red-300">{run.error}</p>}
+    {run.sideEffects && (
+      <div className="space-y-2">
+        <h5 className="text-xs text-sky-300">
+          Intended side effects ({run.sideEffects.length})
+        </h5>
+        {run.sideEffects.map((effect, index) => (
+          <SideEffectRow key={`${effect.nodeId}:${index}`} effect={effect} />
+        ))}
+      </div>
+    )}
+    {run.typeViolations && (
+      <div className="space-y-2">
+        <h5 className="text-xs text-amber-300">
+          Type violations ({run.typeViolations.length})
+        </h5>
+        {run.typeViolations.map((violation, index) => (
+          <TypeViolationRow
+            key={`${violation.edgeId}:${index}`}
+            violation={violation}
+          />
+        ))}
+      </div>
+    )}
+    {Object.entries(run.nodeOutputs).map(([nodeId, outputs]) => (
+      <div key={nodeId} className="text-xs">
+        <div className="text-slate-400">{nodeId}</div>
+        <pre className="p-2 bg-slate-900 rounded text-[10px] text-slate-200 overflow-x-auto max-h-32">
+          {Object.entries(outputs)
+            .map(([portId, value]) => `${portId}: ${formatRunValue(value)}`)
+            .join('\n')}
+        </pre>
+      </div>
+    ))}
+    <pre className="p-2 bg-slate-900 rounded text-[10px] text-slate-400 overflow-x-auto max-h-40">
+      {run.logs.join('\n')}
+    </pre>
+  </div>
+);
+
+const RunDiff = ({
+  before,
+  after,
+}: {
+  before: RunRecord;
+  after: RunRecord;
+}) => {
+  const changes = diffRunOutputs(before, after);
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-semibold text-slate-300">
+        {before.runId.slice(0, 8)} → {after.runId.slice(0, 8)}
+      </h4>
+      {changes.length === 0 ? (
+        <p className="text-[10px] text-slate-500">Outputs are identical</p>
+      ) : (
+        changes.map((change) => (
+          <ChangeRow
+            key={`${change.nodeId}:${change.portId}`}
+            change={change}
+          />
+        ))
+      )}
+    </div>
+  );
+};
+
+// --- Root export ---
+
+export const RunHistoryPanel = ({ runs, onClear }: RunHistoryPanelProps) => {
+  const [filter, setFilter] = useState<StatusFilter>('all');
+  // Up to two runs: one is inspected, two are diffed oldest to newest
+  const [selected, setSelected] = useState<ReadonlyArray<RunId>>([]);
+
+  const visibleRuns = useMemo(
+    () =>
+      filter === 'all' ? runs : runs.filter((run) => run.status === filter),
+    [runs, filter]
+  );
+  const selectedRuns = runs
+    .filter((run) => selected.includes(run.runId))
+    .sort((a, b) => a.startedAt - b.startedAt);
+
+  const toggle = (runId: RunId) =>
+    setSelected((prev) =>
+      prev.includes(runId)
+        ? prev.filter((id) => id !== runId)
+        : [...prev, runId].slice(-2)
+    );
+
+  return (
+    <Card className="bg-slate-800 border-slate-700 rounded-none border-x-0">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm text-slate-100 flex items-center justify-between">
+          Run History
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setSelected([]);
+              onClear();
+            }}
+            disabled={runs.length === 0}
+            className="h-6 text-xs text-slate-400 hover:text-slate-100"
+          >
+            Clear
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-1">
+          {statusFilters.map((status) => (
+            <Button
+              key={status}
+              variant={status === filter ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFilter(status)}
+              className={
+                status === filter
+                  ? 'flex-1 h-6 text-[10px] bg-blue-600 hover:bg-blue-700'
+                  : 'flex-1 h-6 text-[10px] bg-slate-700 border-slate-600 hover:bg-slate-600'
+              }
+            >
+              {status}
+            </Button>
+          ))}
+        </div>
+
+        {visibleRuns.length === 0 ? (
+          <p className="text-[10px] text-slate-500">No runs yet</p>
+        ) : (
+          <div className="space-y-1">
+            {visibleRuns.map((run) => (
+              <RunRow
+                key={run.runId}
+                run={run}
+                selected={selected.includes(run.runId)}
+                onToggle={() => toggle(run.runId)}
+              />
+            ))}
+          </div>
+        )}
+
+        {selectedRuns.length === 1 && <RunDetails run={selectedRuns[0]} />}
+        {selectedRuns.length === 2 && (
+          <RunDiff before={selectedRuns[0]} after={selectedRuns[1]} />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
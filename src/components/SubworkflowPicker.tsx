@@ -0,0 +1,84 @@
+import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import type { FlowNode, WorkflowGraph } from '../types/core';
+import { getSubworkflowId } from '../types/nodes';
+
+interface SubworkflowPickerProps {
+  node: FlowNode;
+  // Saved workflows the node may run; the open workflow is left out
+  workflows: ReadonlyArray<WorkflowGraph>;
+  onChange: (workflow: WorkflowGraph) => void;
+}
+
+export const SubworkflowPicker = ({
+  node,
+  workflows,
+  onChange,
+}: SubworkflowPickerProps) => {
+  const workflowId = getSubworkflowId(node);
+  const current = workflows.find((w) => w.id === workflowId);
+  const select = (id: string) => {
+    const workflow = workflows.find((w) => w.id === id);
+    if (workflow) {
+      onChange(workflow);
+    }
+  };
+
+  return (
+    <Card className="bg-slate-800 border-slate-700 rounded-none border-x-0 border-t-0">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm text-slate-100">
+          Subworkflow · {node.label}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {workflows.length === 0 ? (
+          <p className="text-[10px] text-slate-400">
+            Save another workflow to the library to run it from here.
+          </p>
+        ) : (
+          <div className="flex gap-2">
+            <Select value={current ? current.id : ''} onValueChange={select}>
+              <SelectTrigger className="h-7 text-xs bg-slate-700 border-slate-600 text-slate-100">
+                <SelectValue placeholder="Select a workflow" />
+              </SelectTrigger>
+              <SelectContent>
+                {workflows.map((workflow) => (
+                  <SelectItem
+                    key={workflow.id}
+                    value={workflow.id}
+                    className="text-xs"
+                  >
+                    {workflow.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {current && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onChange(current)}
+                className="h-7 text-xs bg-slate-700 border-slate-600 hover:bg-slate-600"
+              >
+                Refresh ports
+              </Button>
+            )}
+          </div>
+        )}
+        {workflowId && !current && (
+          <p className="text-[10px] text-red-400">
+            Workflow {workflowId} is not in the library.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,154 @@
+import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Plus, Trash2 } from 'lucide-react';
+import type { ConditionNode } from '../types/core';
+import { getSwitchCases, type SwitchCase } from '../types/nodes';
+
+interface SwitchCaseEditorProps {
+  node: ConditionNode;
+  onChange: (cases: ReadonlyArray<SwitchCase>) => void;
+}
+
+// Values are typed as JSON where possible, so `42` matches a number
+const parseCaseValue = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const formatCaseValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+const nextCaseId = (cases: ReadonlyArray<SwitchCase>): string => {
+  let index = cases.length + 1;
+  while (cases.some((c) => c.id === `case${index}`)) {
+    index++;
+  }
+  return `case${index}`;
+};
+
+// --- Leaf components first ---
+
+interface CaseRowProps {
+  switchCase: SwitchCase;
+  onChange: (switchCase: SwitchCase) => void;
+  onRemove: () => void;
+}
+
+const CaseRow = ({ switchCase, onChange, onRemove }: CaseRowProps) => {
+  const isPredicate = switchCase.match === 'predicate';
+
+  return (
+    <div className="bg-slate-700 p-2 rounded space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          value={switchCase.label}
+          onChange={(e) => onChange({ ...switchCase, label: e.target.value })}
+          className="h-7 text-xs bg-slate-800 border-slate-600 text-slate-100"
+          aria-label="Case label"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-[10px] bg-slate-800 border-slate-600"
+          onClick={() =>
+            onChange(
+              isPredicate
+                ? {
+                    id: switchCase.id,
+                    label: switchCase.label,
+                    match: 'value',
+                    value: '',
+                  }
+                : {
+                    id: switchCase.id,
+                    label: switchCase.label,
+                    match: 'predicate',
+                    predicate: 'x => true',
+                  }
+            )
+          }
+        >
+          {isPredicate ? 'predicate' : 'value'}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 hover:bg-slate-600"
+          onClick={onRemove}
+          aria-label="Remove case"
+        >
+          <Trash2 className="w-3 h-3 text-slate-300" />
+        </Button>
+      </div>
+      <Input
+        value={
+          switchCase.match === 'predicate'
+            ? switchCase.predicate
+            : formatCaseValue(switchCase.value)
+        }
+        onChange={(e) =>
+          onChange(
+            switchCase.match === 'predicate'
+              ? { ...switchCase, predicate: e.target.value }
+              : { ...switchCase, value: parseCaseValue(e.target.value) }
+          )
+        }
+        className="h-7 text-xs font-mono bg-slate-800 border-slate-600 text-slate-100"
+        aria-label={isPredicate ? 'Case predicate' : 'Case value'}
+      />
+    </div>
+  );
+};
+
+// --- Root export ---
+
+export const SwitchCaseEditor = ({ node, onChange }: SwitchCaseEditorProps) => {
+  const cases = getSwitchCases(node);
+
+  const updateCase = (index: number, switchCase: SwitchCase) =>
+    onChange(cases.map((c, i) => (i === index ? switchCase : c)));
+
+  const addCase = () => {
+    const id = nextCaseId(cases);
+    onChange([
+      ...cases,
+      { id, label: `Case ${cases.length + 1}`, match: 'value', value: id },
+    ]);
+  };
+
+  return (
+    <Card className="bg-slate-800 border-slate-700 rounded-none border-x-0 border-t-0">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm text-slate-100">
+          Switch Cases · {node.label}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {cases.map((switchCase, index) => (
+          <CaseRow
+            key={switchCase.id}
+            switchCase={switchCase}
+            onChange={(updated) => updateCase(index, updated)}
+            onRemove={() => onChange(cases.filter((_, i) => i !== index))}
+          />
+        ))}
+        <p className="text-[10px] text-slate-400">
+          The first matching case is taken; otherwise Default.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={addCase}
+          className="w-full bg-slate-700 border-slate-600 hover:bg-slate-600"
+        >
+          <Plus className="w-3 h-3 mr-2" />
+          Add case
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
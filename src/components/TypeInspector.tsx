@@ -2,7 +2,12 @@ import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
 import { ScrollArea } from './ui/scroll-area';
 import { Badge } from './ui/badge';
 import { Alert, AlertDescription } from './ui/alert';
-import { CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
+import {
+  CheckCircle2,
+  XCircle,
+  AlertCircle,
+  AlertTriangle,
+} from 'lucide-react';
 import type { WorkflowGraph } from '../types/core';
 import type { InferredType } from '../engine/type-inference';
 import { getPortTypeColor, getPortTypeLabel } from '../utils/type-helpers';
@@ -10,6 +15,8 @@ import { getPortTypeColor, getPortTypeLabel } from '../utils/type-helpers';
 interface TypeInspectorProps {
   graph: WorkflowGraph;
   validationErrors: string[];
+  // Problems that do not block a run, e.g. lossy coercions
+  validationWarnings?: string[];
   inferredTypes: Map<string, InferredType>;
 }
 
@@ -121,6 +128,26 @@ const ValidationErrors = ({ errors }: ValidationErrorsProps) => (
   </div>
 );
 
+interface ValidationWarningsProps {
+  warnings: string[];
+}
+
+const ValidationWarnings = ({ warnings }: ValidationWarningsProps) => (
+  <div className="space-y-2">
+    <h3 className="text-sm font-semibold text-slate-200 flex items-center gap-2">
+      <AlertTriangle className="w-4 h-4 text-amber-500" />
+      Warnings
+    </h3>
+    {warnings.map((warning) => (
+      <Alert key={warning} className="bg-amber-950 border-amber-800">
+        <AlertDescription className="text-xs text-amber-200">
+          {warning}
+        </AlertDescription>
+      </Alert>
+    ))}
+  </div>
+);
+
 interface InferredTypesListProps {
   inferredTypes: Map<string, InferredType>;
 }
@@ -158,6 +185,7 @@ const TsFeaturesBadges = () => (
 export const TypeInspector = ({
   graph,
   validationErrors,
+  validationWarnings = [],
   inferredTypes,
 }: TypeInspectorProps) => {
   const hasErrors = validationErrors.length > 0;
@@ -185,6 +213,9 @@ export const TypeInspector = ({
               errorCount={validationErrors.length}
             />
             {hasErrors && <ValidationErrors errors={validationErrors} />}
+            {validationWarnings.length > 0 && (
+              <ValidationWarnings warnings={validationWarnings} />
+            )}
             {typeCount > 0 && (
               <InferredTypesList inferredTypes={inferredTypes} />
             )}
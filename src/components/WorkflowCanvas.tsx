@@ -1,4 +1,4 @@
-import { useCallback, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ReactFlow,
   Background,
@@ -10,31 +10,84 @@ import {
   type Connection,
   type Node,
   type Edge as FlowEdge,
+  type EdgeChange,
   type NodeTypes,
-  type NodeChange,
+  type NodeMouseHandler,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 import { NodeRenderer } from './NodeRenderer';
+import { ConverterPrompt, type PendingCoercion } from './ConverterPrompt';
 import { useTypeChecker } from '../hooks/useTypeChecker';
+import type { NodeRun } from '../hooks/useExecutionEvents';
 import type { WorkflowGraph, WorkflowNode, Edge, NodeId } from '../types/core';
-import { createEdgeId } from '../types/core';
-import { checkPortCompatibility } from '../types/compatibility';
+import { createEdgeId, createNodeId } from '../types/core';
+import { INACTIVE_BRANCH } from '../types/execution';
+import type { NodeRunStatus } from '../types/events';
+import { checkPortCompatibility, getCoercion } from '../types/compatibility';
+import { createConverterNode } from '../types/nodes';
+import { getRunStatusColor } from '../utils/type-helpers';
 
 interface WorkflowCanvasProps {
   graph: WorkflowGraph;
   onNodesChange: (nodes: WorkflowNode[]) => void;
   onEdgesChange: (edges: Edge[]) => void;
+  // Adds converter nodes inserted into connections that need one
+  onNodeAdd?: (node: WorkflowNode) => void;
   onNodeClick?: (node: WorkflowNode) => void;
+  // Per-node progress of the last run; the overlay is hidden while empty
+  nodeRuns?: ReadonlyMap<NodeId, NodeRun>;
+  running?: boolean;
+  // Debugger breakpoints, toggled by right-clicking a node
+  breakpoints?: ReadonlySet<NodeId>;
+  onToggleBreakpoint?: (node: WorkflowNode) => void;
 }
 
+const emptyNodeRuns: ReadonlyMap<NodeId, NodeRun> = new Map();
+const emptyBreakpoints: ReadonlySet<NodeId> = new Set();
+
+const edgeStroke = (valid: boolean, lossy: boolean): string => {
+  if (!valid) {
+    return '#EF4444';
+  }
+  return lossy ? '#F59E0B' : '#3B82F6';
+};
+
+const toFlowEdge = (edge: Edge, lossy: boolean): FlowEdge => ({
+  id: edge.id as string,
+  source: edge.source as string,
+  target: edge.target as string,
+  sourceHandle: edge.sourcePort,
+  targetHandle: edge.targetPort,
+  animated: edge.valid ?? true,
+  style: { stroke: edgeStroke(edge.valid ?? true, lossy), strokeWidth: 2 },
+});
+
 export const WorkflowCanvas = ({
   graph,
   onNodesChange,
   onEdgesChange,
-  // onNodeClick is kept in props interface for external API but not used internally yet
-  onNodeClick: _onNodeClick,
+  onNodeAdd,
+  onNodeClick,
+  nodeRuns = emptyNodeRuns,
+  running = false,
+  breakpoints = emptyBreakpoints,
+  onToggleBreakpoint,
 }: WorkflowCanvasProps) => {
-  const { edgeValidation } = useTypeChecker(graph);
+  const { edgeValidation, lossyEdges } = useTypeChecker(graph);
+  // A drawn connection waiting for the user to pick a converter
+  const [pending, setPending] = useState<
+    PendingCoercion &
+      Pick<Edge, 'source' | 'sourcePort' | 'target' | 'targetPort'>
+  >();
+  const showRun = running || nodeRuns.size > 0;
+
+  // Nodes not reached yet are pending while the run is going, and simply
+  // did not run once it has finished
+  const runStatus = useCallback(
+    (nodeId: NodeId): NodeRunStatus | undefined =>
+      nodeRuns.get(nodeId)?.status ?? (running ? 'pending' : undefined),
+    [nodeRuns, running]
+  );
 
   // Convert our graph format to React Flow format.
   // We cast `id` to string and `data` to Record<string, unknown> to satisfy
@@ -47,30 +100,108 @@ export const WorkflowCanvas = ({
         type: 'workflowNode',
         position: node.position,
         data: node as unknown as Record<string, unknown>,
+        style: { borderRadius: 12 },
       })),
     [graph.nodes]
   );
 
   const initialEdges = useMemo<FlowEdge[]>(
     () =>
-      graph.edges.map((edge) => ({
-        id: edge.id as string,
-        source: edge.source as string,
-        target: edge.target as string,
-        sourceHandle: edge.sourcePort,
-        targetHandle: edge.targetPort,
-        animated: edgeValidation.get(edge.id) ?? true,
-        style: {
-          stroke: edgeValidation.get(edge.id) === false ? '#EF4444' : '#3B82F6',
-          strokeWidth: 2,
-        },
-      })),
-    [graph.edges, edgeValidation]
+      graph.edges.map((edge) =>
+        toFlowEdge(
+          { ...edge, valid: edgeValidation.get(edge.id) ?? true },
+          lossyEdges.has(edge.id)
+        )
+      ),
+    [graph.edges, edgeValidation, lossyEdges]
   );
 
-  const [nodes, , onNodesChangeInternal] = useNodesState(initialNodes);
+  const [nodes, setNodes, onNodesChangeInternal] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChangeInternal] = useEdgesState(initialEdges);
 
+  // Keep React Flow in sync when the graph changes outside the canvas
+  // (added nodes, edited switch cases, ...)
+  useEffect(() => {
+    setNodes(initialNodes);
+  }, [initialNodes, setNodes]);
+
+  // Run status and breakpoints restyle the existing nodes in place, so
+  // execution events keep React Flow's selection, measurements and drags
+  useEffect(() => {
+    setNodes((ns) =>
+      ns.map((node) => {
+        const status = showRun ? runStatus(node.id as NodeId) : undefined;
+        const breakpoint = breakpoints.has(node.id as NodeId);
+        return {
+          ...node,
+          className: status === 'running' ? 'animate-pulse' : undefined,
+          style: {
+            borderRadius: 12,
+            ...(status && {
+              boxShadow: `0 0 0 3px ${getRunStatusColor(status)}`,
+              opacity: status === 'pending' || status === 'skipped' ? 0.6 : 1,
+            }),
+            ...(breakpoint && {
+              outline: '2px dashed #EF4444',
+              outlineOffset: 6,
+            }),
+          },
+        };
+      })
+    );
+  }, [initialNodes, showRun, runStatus, breakpoints, setNodes]);
+
+  // Edges too, e.g. those dropped with a deleted switch case
+  useEffect(() => {
+    setEdges(initialEdges);
+  }, [initialEdges, setEdges]);
+
+  // During and after a run, only edges that carried a value are animated
+  useEffect(() => {
+    const carriesData = (edge: FlowEdge): boolean => {
+      const outputs = nodeRuns.get(edge.source as NodeId)?.outputs;
+      return (
+        outputs !== undefined &&
+        edge.sourceHandle != null &&
+        edge.sourceHandle in outputs &&
+        outputs[edge.sourceHandle] !== INACTIVE_BRANCH
+      );
+    };
+
+    setEdges((eds) =>
+      eds.map((edge) => {
+        const valid = edgeValidation.get(edge.id) ?? true;
+        const carried = showRun && carriesData(edge);
+        let stroke = edgeStroke(valid, lossyEdges.has(edge.id));
+        if (valid && showRun) {
+          stroke = carried ? getRunStatusColor('succeeded') : '#475569';
+        }
+        return {
+          ...edge,
+          animated: showRun ? carried : valid,
+          style: { ...edge.style, stroke },
+        };
+      })
+    );
+  }, [nodeRuns, showRun, edgeValidation, lossyEdges, setEdges]);
+
+  // Edges deleted on the canvas leave the graph as well, or the next sync
+  // would draw them again
+  const handleEdgesChange = useCallback(
+    (changes: EdgeChange[]) => {
+      onEdgesChangeInternal(changes);
+      const removed = new Set(
+        changes.flatMap((change) =>
+          change.type === 'remove' ? [change.id] : []
+        )
+      );
+      if (removed.size > 0) {
+        onEdgesChange(graph.edges.filter((edge) => !removed.has(edge.id)));
+      }
+    },
+    [graph.edges, onEdgesChange, onEdgesChangeInternal]
+  );
+
   // Custom node types — cast to NodeTypes to bridge the branded-id gap
   const nodeTypes = useMemo<NodeTypes>(
     () => ({
@@ -98,6 +229,21 @@ export const WorkflowCanvas = ({
 
       if (!sourcePort || !targetPort) return;
 
+      // Offer a converter when the types only fit through a conversion
+      const coercion = getCoercion(sourcePort.portType, targetPort.portType);
+      if (coercion?.converter) {
+        setPending({
+          source: sourceNode.id,
+          sourcePort: sourcePort.id,
+          target: targetNode.id,
+          targetPort: targetPort.id,
+          sourceType: sourcePort.portType,
+          targetType: targetPort.portType,
+          coercion: { ...coercion, converter: coercion.converter },
+        });
+        return;
+      }
+
       const compatibility = checkPortCompatibility(
         sourcePort.portType,
         targetPort.portType
@@ -133,27 +279,110 @@ export const WorkflowCanvas = ({
     [graph, onEdgesChange, setEdges]
   );
 
-  // Handle node position changes — propagate back to our graph model
-  const handleNodesChange = useCallback(
-    (changes: NodeChange<Node>[]) => {
-      onNodesChangeInternal(changes);
-
-      const updatedNodes = nodes
-        .map((node) => {
-          const graphNode = graph.nodes.find((n) => n.id === node.id);
-          if (graphNode) {
-            return {
-              ...graphNode,
-              position: node.position,
-            };
-          }
-          return undefined;
-        })
-        .filter((n): n is WorkflowNode => Boolean(n));
+  // Connect the pending ports directly, leaving the conversion to the edge
+  const connectPending = useCallback(() => {
+    if (!pending) return;
+    const { source, sourcePort, target, targetPort, coercion } = pending;
+
+    const newEdge: Edge = {
+      id: createEdgeId(`edge-${Date.now()}`),
+      source,
+      sourcePort,
+      target,
+      targetPort,
+      valid: coercion.level !== 'forbidden',
+    };
+
+    onEdgesChange([...graph.edges, newEdge]);
+    setEdges((eds) => [
+      ...eds,
+      toFlowEdge(newEdge, coercion.level === 'lossy'),
+    ]);
+  }, [pending, graph.edges, onEdgesChange, setEdges]);
+
+  // Put a converter node halfway between the pending ports and route the
+  // connection through it
+  const insertConverter = useCallback(
+    (field?: string) => {
+      if (!pending || !onNodeAdd) return;
+      const { source, sourcePort, target, targetPort, coercion } = pending;
+
+      const sourceNode = graph.nodes.find((n) => n.id === source);
+      const targetNode = graph.nodes.find((n) => n.id === target);
+      if (!sourceNode || !targetNode) return;
+
+      const stamp = Date.now();
+      const converter = createConverterNode(
+        coercion.converter,
+        createNodeId(`node-${stamp}`),
+        {
+          x: (sourceNode.position.x + targetNode.position.x) / 2,
+          y: (sourceNode.position.y + targetNode.position.y) / 2,
+        },
+        field
+      );
+      const inbound: Edge = {
+        id: createEdgeId(`edge-${stamp}-in`),
+        source,
+        sourcePort,
+        target: converter.id,
+        targetPort: 'input',
+        valid: true,
+      };
+      const outbound: Edge = {
+        id: createEdgeId(`edge-${stamp}-out`),
+        source: converter.id,
+        sourcePort: 'output',
+        target,
+        targetPort,
+        valid: true,
+      };
+
+      onNodeAdd(converter);
+      onEdgesChange([...graph.edges, inbound, outbound]);
+      setEdges((eds) => [
+        ...eds,
+        toFlowEdge(inbound, false),
+        toFlowEdge(outbound, false),
+      ]);
+    },
+    [pending, graph, onNodeAdd, onEdgesChange, setEdges]
+  );
+
+  // Propagate positions back to our graph model once a drag ends
+  const handleNodeDragStop = useCallback(
+    (_event: React.MouseEvent, _node: Node, draggedNodes: Node[]) => {
+      const updatedNodes = graph.nodes.map((graphNode) => {
+        const dragged = draggedNodes.find((n) => n.id === graphNode.id);
+        return dragged
+          ? { ...graphNode, position: dragged.position }
+          : graphNode;
+      });
 
       onNodesChange(updatedNodes);
     },
-    [nodes, graph.nodes, onNodesChange, onNodesChangeInternal]
+    [graph.nodes, onNodesChange]
+  );
+
+  const handleNodeClick = useCallback<NodeMouseHandler>(
+    (_event, node) => {
+      const graphNode = graph.nodes.find((n) => n.id === node.id);
+      if (graphNode) {
+        onNodeClick?.(graphNode);
+      }
+    },
+    [graph.nodes, onNodeClick]
+  );
+
+  const handleNodeContextMenu = useCallback<NodeMouseHandler>(
+    (event, node) => {
+      const graphNode = graph.nodes.find((n) => n.id === node.id);
+      if (graphNode && onToggleBreakpoint) {
+        event.preventDefault();
+        onToggleBreakpoint(graphNode);
+      }
+    },
+    [graph.nodes, onToggleBreakpoint]
   );
 
   return (
@@ -161,8 +390,11 @@ export const WorkflowCanvas = ({
       <ReactFlow
         nodes={nodes}
         edges={edges}
-        onNodesChange={handleNodesChange}
-        onEdgesChange={onEdgesChangeInternal}
+        onNodesChange={onNodesChangeInternal}
+        onNodeDragStop={handleNodeDragStop}
+        onNodeClick={handleNodeClick}
+        onNodeContextMenu={handleNodeContextMenu}
+        onEdgesChange={handleEdgesChange}
         onConnect={onConnect}
         nodeTypes={nodeTypes}
         fitView
@@ -187,12 +419,20 @@ export const WorkflowCanvas = ({
                 return '#EF4444';
               case 'data':
                 return '#8B5CF6';
+              case 'flow':
+                return '#06B6D4';
               default:
                 return '#6B7280';
             }
           }}
         />
       </ReactFlow>
+      <ConverterPrompt
+        pending={pending}
+        onInsert={insertConverter}
+        onConnect={connectPending}
+        onCancel={() => setPending(undefined)}
+      />
     </div>
   );
 };
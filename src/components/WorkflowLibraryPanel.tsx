@@ -0,0 +1,120 @@
+import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { FolderOpen, Plus, Save, Trash2 } from 'lucide-react';
+import type { WorkflowGraph, WorkflowId } from '../types/core';
+
+interface WorkflowLibraryPanelProps {
+  graph: WorkflowGraph;
+  workflows: ReadonlyArray<WorkflowGraph>;
+  onRename: (name: string) => void;
+  onSave: () => void;
+  onNew: () => void;
+  onOpen: (workflow: WorkflowGraph) => void;
+  onRemove: (workflowId: WorkflowId) => void;
+}
+
+// --- Leaf components first ---
+
+interface SavedWorkflowRowProps {
+  workflow: WorkflowGraph;
+  open: boolean;
+  onOpen: () => void;
+  onRemove: () => void;
+}
+
+const SavedWorkflowRow = ({
+  workflow,
+  open,
+  onOpen,
+  onRemove,
+}: SavedWorkflowRowProps) => (
+  <div className="bg-slate-700 p-2 rounded flex items-center gap-2">
+    <div className="flex-1 min-w-0">
+      <div className="text-xs text-slate-100 truncate">{workflow.name}</div>
+      <div className="text-[10px] text-slate-400">
+        {workflow.nodes.length} node(s){open && ' · open'}
+      </div>
+    </div>
+    <Button
+      variant="outline"
+      size="sm"
+      disabled={open}
+      onClick={onOpen}
+      className="h-7 bg-slate-800 border-slate-600"
+      aria-label={`Open ${workflow.name}`}
+    >
+      <FolderOpen className="w-3 h-3" />
+    </Button>
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={onRemove}
+      className="h-7 bg-slate-800 border-slate-600"
+      aria-label={`Remove ${workflow.name}`}
+    >
+      <Trash2 className="w-3 h-3" />
+    </Button>
+  </div>
+);
+
+// --- Root export ---
+
+export const WorkflowLibraryPanel = ({
+  graph,
+  workflows,
+  onRename,
+  onSave,
+  onNew,
+  onOpen,
+  onRemove,
+}: WorkflowLibraryPanelProps) => (
+  <Card className="bg-slate-800 border-slate-700 rounded-none border-x-0 border-t-0">
+    <CardHeader className="pb-3">
+      <CardTitle className="text-sm text-slate-100">Workflow Library</CardTitle>
+    </CardHeader>
+    <CardContent className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={graph.name}
+          onChange={(e) => onRename(e.target.value)}
+          className="h-7 text-xs bg-slate-700 border-slate-600 text-slate-100"
+          aria-label="Workflow name"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onSave}
+          className="h-7 text-xs bg-slate-700 border-slate-600 hover:bg-slate-600"
+        >
+          <Save className="w-3 h-3 mr-1" />
+          Save
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onNew}
+          className="h-7 text-xs bg-slate-700 border-slate-600 hover:bg-slate-600"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          New
+        </Button>
+      </div>
+      {workflows.length === 0 ? (
+        <p className="text-[10px] text-slate-400">
+          Saved workflows can be run from Subworkflow nodes.
+        </p>
+      ) : (
+        workflows.map((workflow) => (
+          <SavedWorkflowRow
+            key={workflow.id}
+            workflow={workflow}
+            open={workflow.id === graph.id}
+            onOpen={() => onOpen(workflow)}
+            onRemove={() => onRemove(workflow.id)}
+          />
+        ))
+      )}
+    </CardContent>
+  </Card>
+);
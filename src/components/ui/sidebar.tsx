@@ -7,16 +7,7 @@ import {
   useEffect,
   useMemo,
 } from 'react';
-import type {
-  ComponentProps,
-  CSSProperties,
-  ElementRef,
-  HTMLButtonElement,
-  HTMLDivElement,
-  HTMLUListElement,
-  HTMLLIElement,
-  HTMLAnchorElement,
-} from 'react';
+import type { ComponentProps, CSSProperties, ElementRef } from 'react';
 import { Slot } from '@radix-ui/react-slot';
 import { cva, type VariantProps } from 'class-variance-authority';
 import { PanelLeft } from 'lucide-react';
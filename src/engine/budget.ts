@@ -0,0 +1,102 @@
+/**
+ * Execution Budgets - Caps on the work one run may do
+ * Demonstrates: Shared Counters across Nested Runs, Custom Error Classes
+ */
+
+import type { BudgetLimit, ExecutionBudget, NodeId } from '../types/core';
+import type { ExecutionError, NodeOutputs } from '../types/execution';
+import { NodeInterruptedError, type Interruption } from './cancellation';
+
+type BudgetExceeded = Extract<ExecutionError, { type: 'budget-exceeded' }>;
+
+export const formatBudgetExceeded = (error: BudgetExceeded): string =>
+  `Budget exceeded at ${error.nodeId}: ${error.limit} is ${error.max}, reached ${error.used}`;
+
+/**
+ * Throw a run-stopping error when `used` goes over the budget's `limit`
+ */
+export const checkBudget = (
+  budget: ExecutionBudget | undefined,
+  limit: BudgetLimit,
+  used: number,
+  nodeId: NodeId
+): void => {
+  const max = budget?.[limit];
+  if (max === undefined || used <= max) {
+    return;
+  }
+  const error: BudgetExceeded = {
+    type: 'budget-exceeded',
+    nodeId,
+    limit,
+    max,
+    used,
+  };
+  throw new NodeInterruptedError(error, formatBudgetExceeded(error));
+};
+
+// Size of the outputs as UTF-8 JSON; values JSON cannot encode are not counted
+const outputBytes = (outputs: NodeOutputs): number => {
+  try {
+    return new TextEncoder().encode(JSON.stringify(outputs) ?? '').length;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * What a run has used of its budget, shared with its nested runs so limits
+ * apply to the whole tree of runs
+ */
+export class BudgetUsage {
+  readonly budget: ExecutionBudget;
+  private startedAt: number;
+  private nodeExecutions: number;
+  private outputBytes: number;
+
+  constructor(budget: ExecutionBudget = {}) {
+    this.budget = budget;
+    this.startedAt = Date.now();
+    this.nodeExecutions = 0;
+    this.outputBytes = 0;
+  }
+
+  countNodeExecution(nodeId: NodeId): void {
+    this.nodeExecutions++;
+    checkBudget(this.budget, 'maxNodeExecutions', this.nodeExecutions, nodeId);
+  }
+
+  countOutputs(nodeId: NodeId, outputs: NodeOutputs): void {
+    this.outputBytes += outputBytes(outputs);
+    checkBudget(this.budget, 'maxOutputBytes', this.outputBytes, nodeId);
+  }
+
+  // `depth` is 1 for a run started by the top-level run
+  checkDepth(nodeId: NodeId, depth: number): void {
+    checkBudget(this.budget, 'maxSubworkflowDepth', depth, nodeId);
+  }
+
+  /**
+   * Abort `controller` when the wall time, counted from the top-level run's
+   * start, runs out; returns a clear function
+   */
+  abortOnWallTime(controller: AbortController): () => void {
+    const max = this.budget.maxWallTimeMs;
+    if (max === undefined) {
+      return () => {};
+    }
+    const timer = setTimeout(
+      () => {
+        const reason: Interruption = {
+          kind: 'budget-exceeded',
+          limit: 'maxWallTimeMs',
+          max,
+          used: Date.now() - this.startedAt,
+        };
+        controller.abort(reason);
+      },
+      Math.max(0, max - (Date.now() - this.startedAt))
+    );
+    return () => clearTimeout(timer);
+  }
+}
@@ -0,0 +1,496 @@
+/**
+ * Built-in Node Executors
+ * Demonstrates: Literal Inference, satisfies, Registry-driven Dispatch
+ */
+
+import type { NodeId, WorkflowNode } from '../types/core';
+import type { ExpressionCompiler } from '../types/expression';
+import type {
+  ExecutionError,
+  NodeExecutor,
+  NodeExecutionContext,
+  NodeInputs,
+  NodeOutputs,
+  NodeOfType,
+  TypedNodeExecutor,
+} from '../types/execution';
+import { INACTIVE_BRANCH } from '../types/execution';
+import {
+  SWITCH_DEFAULT_PORT,
+  getForEachBody,
+  getForEachConcurrency,
+  getSubworkflowId,
+  getSwitchCases,
+  getWorkflowTerminalNodes,
+  getWorkflowTriggerNodes,
+  subworkflowPortId,
+  isCompareOperator,
+  type CompareOperator,
+} from '../types/nodes';
+import { deepEqual } from '../utils/value-helpers';
+import { checkBudget } from './budget';
+import { convertValue } from './converters';
+
+// Bind an execute function to a single node type
+export const defineNodeExecutor = <T extends WorkflowNode['type']>(
+  nodeType: T,
+  execute: (
+    node: NodeOfType<T>,
+    inputs: NodeInputs,
+    context: NodeExecutionContext
+  ) => Promise<NodeOutputs> | NodeOutputs,
+  prepare?: (
+    node: NodeOfType<T>,
+    expressions: ExpressionCompiler
+  ) => ReadonlyArray<ExecutionError>
+): TypedNodeExecutor<T> => ({
+  id: `builtin:${nodeType}`,
+  nodeType,
+  canExecute: (type: string) => type === nodeType,
+  execute,
+  prepare,
+});
+
+// Expression defaults, matching the node factories in `types/nodes.ts`
+const DEFAULT_EXPRESSIONS: Record<string, string> = {
+  mapFunction: 'x => x',
+  filterFunction: 'x => true',
+  reduceFunction: '(acc, x) => acc + x',
+};
+
+const expressionSource = (node: WorkflowNode, field: string): string => {
+  const source = node.data?.[field];
+  return typeof source === 'string' ? source : DEFAULT_EXPRESSIONS[field];
+};
+
+// Compile an expression up front, reporting syntax errors per node
+const compileErrors = (
+  node: WorkflowNode,
+  field: string,
+  source: string,
+  expressions: ExpressionCompiler
+): ReadonlyArray<ExecutionError> => {
+  const result = expressions.compile(source);
+  if (result.success) {
+    return [];
+  }
+  return [
+    {
+      type: 'expression-syntax',
+      nodeId: node.id,
+      field,
+      source,
+      message: result.error.message,
+      position: result.error.position,
+    },
+  ];
+};
+
+const prepareExpression = (
+  node: WorkflowNode,
+  field: string,
+  expressions: ExpressionCompiler
+): ReadonlyArray<ExecutionError> =>
+  compileErrors(node, field, expressionSource(node, field), expressions);
+
+// Trigger executors
+
+const httpTriggerExecutor = defineNodeExecutor(
+  'trigger.http',
+  (_node, _inputs, context) => ({
+    request: { method: 'GET', url: '/', timestamp: context.timestamp },
+  })
+);
+
+const timerTriggerExecutor = defineNodeExecutor(
+  'trigger.timer',
+  (_node, _inputs, context) => ({ timestamp: context.timestamp })
+);
+
+const manualTriggerExecutor = defineNodeExecutor(
+  'trigger.manual',
+  (_node, _inputs, context) => ({
+    data: context.variables.get('triggerData'),
+  })
+);
+
+// Logic executors
+
+const ifExecutor = defineNodeExecutor('logic.if', (_node, inputs) =>
+  inputs.condition
+    ? { true: true, false: INACTIVE_BRANCH }
+    : { true: INACTIVE_BRANCH, false: true }
+);
+
+const isOrdered = (value: unknown): value is number | string =>
+  typeof value === 'number' || typeof value === 'string';
+
+const rangeBounds = (range: unknown): [number, number] => {
+  if (Array.isArray(range) && range.length === 2) {
+    return [Number(range[0]), Number(range[1])];
+  }
+  if (typeof range === 'object' && range !== null) {
+    const { min, max } = range as { min?: unknown; max?: unknown };
+    return [Number(min ?? -Infinity), Number(max ?? Infinity)];
+  }
+  throw new Error('inRange expects [min, max] or { min, max }');
+};
+
+/**
+ * Evaluate a compare operator; operand kinds are checked statically by
+ * GraphValidator and re-checked here for values from `any` ports
+ */
+export const evaluateComparison = (
+  operator: CompareOperator,
+  a: unknown,
+  b: unknown
+): boolean => {
+  switch (operator) {
+    case '===':
+      return a === b;
+    case '!==':
+      return a !== b;
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      if (!isOrdered(a) || !isOrdered(b) || typeof a !== typeof b) {
+        throw new Error(
+          `Operator '${operator}' requires two numbers or two strings`
+        );
+      }
+      if (operator === '<') return a < b;
+      if (operator === '<=') return a <= b;
+      if (operator === '>') return a > b;
+      return a >= b;
+    }
+    case 'contains':
+      if (typeof a === 'string') return a.includes(String(b));
+      if (Array.isArray(a)) return a.some((x) => deepEqual(x, b));
+      throw new Error("Operator 'contains' requires a string or array");
+    case 'startsWith':
+      return String(a).startsWith(String(b));
+    case 'matches':
+      return new RegExp(String(b)).test(String(a));
+    case 'deepEqual':
+      return deepEqual(a, b);
+    case 'inRange': {
+      const [min, max] = rangeBounds(b);
+      const value = Number(a);
+      return value >= min && value <= max;
+    }
+    default: {
+      const _exhaustive: never = operator;
+      throw new Error(`Unknown compare operator: ${_exhaustive}`);
+    }
+  }
+};
+
+const compareExecutor = defineNodeExecutor('logic.compare', (node, inputs) => {
+  const operator = node.data?.operator ?? '===';
+  if (!isCompareOperator(operator)) {
+    throw new Error(`Unknown compare operator: ${String(operator)}`);
+  }
+  return { result: evaluateComparison(operator, inputs.a, inputs.b) };
+});
+
+// Activate the first matching case port, or the default port
+const switchExecutor = defineNodeExecutor(
+  'logic.switch',
+  (node, inputs, context) => {
+    const cases = getSwitchCases(node);
+    const matched = cases.find((c) =>
+      c.match === 'value'
+        ? c.value === inputs.value
+        : Boolean(context.expressions.get(c.predicate).apply(inputs.value))
+    );
+
+    const outputs: NodeOutputs = {};
+    for (const c of cases) {
+      outputs[c.id] = c === matched ? true : INACTIVE_BRANCH;
+    }
+    outputs[SWITCH_DEFAULT_PORT] = matched ? INACTIVE_BRANCH : true;
+    return outputs;
+  },
+  (node, expressions) =>
+    getSwitchCases(node).flatMap((c) =>
+      c.match === 'predicate'
+        ? compileErrors(
+            node,
+            `cases.${c.id}.predicate`,
+            c.predicate,
+            expressions
+          )
+        : []
+    )
+);
+
+// Run `task` per item with at most `limit` in flight, keeping item order.
+// After a failure no further items start.
+const mapWithConcurrency = async <T, R>(
+  items: ReadonlyArray<T>,
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+};
+
+// Run the body graph once per element, collecting one result per element
+const forEachExecutor = defineNodeExecutor(
+  'logic.forEach',
+  async (node, inputs, context) => {
+    const items = inputs.items;
+    if (!Array.isArray(items)) {
+      throw new Error('ForEach expects an array of items');
+    }
+    const body = getForEachBody(node);
+    if (!body) {
+      throw new Error(`ForEach ${node.id} has no body graph`);
+    }
+    checkBudget(context.budget, 'maxLoopIterations', items.length, node.id);
+
+    const results = await mapWithConcurrency(
+      items,
+      getForEachConcurrency(node),
+      async (item, index) => {
+        const variables = new Map(context.variables);
+        variables.set('triggerData', item);
+        variables.set('index', index);
+
+        const result = await context.runSubgraph(body.graph, variables);
+        if (!result.success) {
+          throw new Error(`Item ${index} failed: ${result.error.message}`);
+        }
+        if (!body.result) {
+          return result.output;
+        }
+        const outputs = result.output as Record<
+          string,
+          Record<string, unknown> | undefined
+        >;
+        return outputs[body.result.nodeId]?.[body.result.portId];
+      }
+    );
+
+    context.log(`ForEach completed ${items.length} items`);
+    return { results };
+  }
+);
+
+// Flow executors
+
+// Run the referenced workflow with connected inputs fed to its triggers.
+// Ports of terminal nodes that were skipped in the subworkflow stay untaken.
+const subworkflowExecutor = defineNodeExecutor(
+  'flow.subworkflow',
+  async (node, inputs, context) => {
+    const workflowId = getSubworkflowId(node);
+    const workflow = workflowId && context.workflows.get(workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${workflowId ?? '(none selected)'}`);
+    }
+
+    const seeds = new Map<NodeId, NodeOutputs>();
+    for (const trigger of getWorkflowTriggerNodes(workflow)) {
+      const outputs: NodeOutputs = {};
+      let connected = false;
+      for (const port of trigger.outputs) {
+        const portId = subworkflowPortId(trigger.id, port.id);
+        if (portId in inputs) {
+          outputs[port.id] = inputs[portId];
+          connected = true;
+        }
+      }
+      if (connected) {
+        seeds.set(trigger.id, outputs);
+      }
+    }
+
+    const result = await context.runSubgraph(workflow, context.variables, {
+      seeds,
+    });
+    if (!result.success) {
+      throw new Error(
+        `Subworkflow ${workflow.name} failed: ${result.error.message}`
+      );
+    }
+
+    const terminalOutputs = result.output as Record<
+      string,
+      Record<string, unknown> | undefined
+    >;
+    const outputs: NodeOutputs = {};
+    for (const terminal of getWorkflowTerminalNodes(workflow)) {
+      const values = terminalOutputs[terminal.id];
+      for (const port of terminal.outputs) {
+        outputs[subworkflowPortId(terminal.id, port.id)] = values
+          ? values[port.id]
+          : INACTIVE_BRANCH;
+      }
+    }
+    return outputs;
+  }
+);
+
+// Transform executors
+
+const mapExecutor = defineNodeExecutor(
+  'transform.map',
+  (node, inputs, context) => {
+    const input = inputs.input;
+    if (!Array.isArray(input)) {
+      return { output: input };
+    }
+    const mapFn = context.expressions.get(
+      expressionSource(node, 'mapFunction')
+    );
+    return { output: input.map((x, i) => mapFn.apply(x, i)) };
+  },
+  (node, expressions) => prepareExpression(node, 'mapFunction', expressions)
+);
+
+const filterExecutor = defineNodeExecutor(
+  'transform.filter',
+  (node, inputs, context) => {
+    const input = inputs.input;
+    if (!Array.isArray(input)) {
+      return { output: input };
+    }
+    const predicate = context.expressions.get(
+      expressionSource(node, 'filterFunction')
+    );
+    return { output: input.filter((x, i) => Boolean(predicate.apply(x, i))) };
+  },
+  (node, expressions) => prepareExpression(node, 'filterFunction', expressions)
+);
+
+const reduceExecutor = defineNodeExecutor(
+  'transform.reduce',
+  (node, inputs, context) => {
+    const input = inputs.input;
+    if (!Array.isArray(input)) {
+      return { output: input };
+    }
+    const reducer = context.expressions.get(
+      expressionSource(node, 'reduceFunction')
+    );
+    return {
+      output: input.reduce<unknown>(
+        (acc, x, i) => reducer.apply(acc, x, i),
+        inputs.initial ?? 0
+      ),
+    };
+  },
+  (node, expressions) => prepareExpression(node, 'reduceFunction', expressions)
+);
+
+// Converter executors, shared with implicit coercion edges
+
+const toStringExecutor = defineNodeExecutor(
+  'transform.toString',
+  (_node, inputs) => ({ output: convertValue('toString', inputs.input) })
+);
+
+const parseNumberExecutor = defineNodeExecutor(
+  'transform.parseNumber',
+  (_node, inputs) => ({ output: convertValue('parseNumber', inputs.input) })
+);
+
+const wrapInArrayExecutor = defineNodeExecutor(
+  'transform.wrapInArray',
+  (_node, inputs) => ({ output: convertValue('wrapInArray', inputs.input) })
+);
+
+const pickFieldExecutor = defineNodeExecutor(
+  'transform.pickField',
+  (node, inputs) => {
+    const field = node.data?.field;
+    return {
+      output: convertValue(
+        'pickField',
+        inputs.input,
+        typeof field === 'string' ? field : undefined
+      ),
+    };
+  }
+);
+
+// Effect executors
+
+const httpEffectExecutor = defineNodeExecutor(
+  'effect.http',
+  (_node, inputs, context) => {
+    // Simulate HTTP request
+    context.log(`HTTP Request: ${inputs.url}`);
+    return { response: { status: 200, data: {} } };
+  }
+);
+
+const emailEffectExecutor = defineNodeExecutor(
+  'effect.email',
+  (_node, inputs, context) => {
+    context.log(`Email sent to: ${inputs.to}`);
+    return { result: { sent: true } };
+  }
+);
+
+const dbEffectExecutor = defineNodeExecutor(
+  'effect.db',
+  (_node, inputs, context) => {
+    context.log(`DB Write: ${inputs.collection}`);
+    return { result: { written: true } };
+  }
+);
+
+// Data executors
+
+const constantExecutor = defineNodeExecutor('data.constant', (node) => ({
+  value: node.data?.value,
+}));
+
+const variableExecutor = defineNodeExecutor('data.variable', (node) => ({
+  value: node.data?.variableName,
+}));
+
+// All built-in executors, one per node type in `nodeFactories`
+export const builtinExecutors = [
+  httpTriggerExecutor,
+  timerTriggerExecutor,
+  manualTriggerExecutor,
+  ifExecutor,
+  switchExecutor,
+  compareExecutor,
+  forEachExecutor,
+  mapExecutor,
+  filterExecutor,
+  reduceExecutor,
+  toStringExecutor,
+  parseNumberExecutor,
+  wrapInArrayExecutor,
+  pickFieldExecutor,
+  httpEffectExecutor,
+  emailEffectExecutor,
+  dbEffectExecutor,
+  constantExecutor,
+  variableExecutor,
+  subworkflowExecutor,
+] as const satisfies ReadonlyArray<NodeExecutor>;
@@ -0,0 +1,163 @@
+/**
+ * Cancellation - AbortSignal plumbing for run and node timeouts
+ * Demonstrates: Discriminated Unions, Custom Error Classes, Resource Cleanup
+ */
+
+import type { BudgetLimit, NodeId } from '../types/core';
+import type { ExecutionError } from '../types/execution';
+
+// Why a signal was aborted; forwarded from the run signal to node signals
+export type Interruption =
+  | {
+      readonly kind: 'timeout';
+      readonly scope: 'run' | 'node';
+      readonly timeoutMs: number;
+    }
+  | { readonly kind: 'aborted'; readonly reason: string }
+  | {
+      readonly kind: 'budget-exceeded';
+      readonly limit: BudgetLimit;
+      readonly max: number;
+      readonly used: number;
+    };
+
+const isInterruption = (reason: unknown): reason is Interruption =>
+  typeof reason === 'object' &&
+  reason !== null &&
+  'kind' in reason &&
+  (reason.kind === 'timeout' ||
+    reason.kind === 'aborted' ||
+    reason.kind === 'budget-exceeded');
+
+const toInterruption = (reason: unknown): Interruption => {
+  if (isInterruption(reason)) {
+    return reason;
+  }
+  if (reason instanceof Error) {
+    return { kind: 'aborted', reason: reason.message };
+  }
+  return {
+    kind: 'aborted',
+    reason: reason === undefined ? 'aborted' : String(reason),
+  };
+};
+
+/**
+ * Describe an aborted signal as an error naming the interrupted node
+ */
+export const interruptionError = (
+  nodeId: NodeId,
+  signal: AbortSignal
+): ExecutionError => {
+  const interruption = toInterruption(signal.reason);
+  if (interruption.kind === 'timeout') {
+    return {
+      type: 'timeout',
+      nodeId,
+      scope: interruption.scope,
+      timeoutMs: interruption.timeoutMs,
+    };
+  }
+  if (interruption.kind === 'budget-exceeded') {
+    return {
+      type: 'budget-exceeded',
+      nodeId,
+      limit: interruption.limit,
+      max: interruption.max,
+      used: interruption.used,
+    };
+  }
+  return { type: 'aborted', nodeId, reason: interruption.reason };
+};
+
+// Thrown when a node is cut short; never retried
+export class NodeInterruptedError extends Error {
+  readonly error: ExecutionError;
+
+  constructor(error: ExecutionError, message: string) {
+    super(message);
+    this.name = 'NodeInterruptedError';
+    this.error = error;
+  }
+}
+
+/**
+ * Abort `controller` when `parent` aborts; returns an unlink function
+ */
+export const linkSignal = (
+  parent: AbortSignal | undefined,
+  controller: AbortController
+): (() => void) => {
+  if (!parent) {
+    return () => {};
+  }
+  const forward = () => controller.abort(toInterruption(parent.reason));
+  if (parent.aborted) {
+    forward();
+    return () => {};
+  }
+  parent.addEventListener('abort', forward, { once: true });
+  return () => parent.removeEventListener('abort', forward);
+};
+
+/**
+ * Abort `controller` with a timeout after `timeoutMs`; returns a clear function
+ */
+export const abortAfter = (
+  controller: AbortController,
+  timeoutMs: number | undefined,
+  scope: 'run' | 'node'
+): (() => void) => {
+  if (timeoutMs === undefined) {
+    return () => {};
+  }
+  const timer = setTimeout(() => {
+    const reason: Interruption = { kind: 'timeout', scope, timeoutMs };
+    controller.abort(reason);
+  }, timeoutMs);
+  return () => clearTimeout(timer);
+};
+
+/**
+ * Settle with `promise`, or reject with `onAbort()` as soon as `signal` aborts
+ */
+export const raceAbort = <T>(
+  promise: Promise<T>,
+  signal: AbortSignal,
+  onAbort: () => Error
+): Promise<T> => {
+  if (signal.aborted) {
+    return Promise.reject(onAbort());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => reject(onAbort());
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', abort);
+    });
+  });
+};
+
+/**
+ * Wait `ms`, rejecting early with `onAbort()` if `signal` aborts
+ */
+export const abortableDelay = (
+  ms: number,
+  signal: AbortSignal,
+  onAbort: () => Error
+): Promise<void> => {
+  if (signal.aborted) {
+    return Promise.reject(onAbort());
+  }
+  return new Promise<void>((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(onAbort());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', abort, { once: true });
+  });
+};
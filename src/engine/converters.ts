@@ -0,0 +1,67 @@
+/**
+ * Value Converters - The conversions behind coercion edges and converter nodes
+ * Demonstrates: Exhaustive Switches, Shared Runtime Semantics
+ */
+
+import type { ConverterKind } from '../types/compatibility';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toText = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return typeof value === 'object' && value !== null
+    ? JSON.stringify(value)
+    : String(value);
+};
+
+const parseNumber = (value: unknown): number => {
+  if (typeof value === 'number') {
+    return value;
+  }
+  const text = toText(value).trim();
+  const parsed = Number(text);
+  if (text === '' || Number.isNaN(parsed)) {
+    throw new Error(`Cannot parse ${JSON.stringify(text)} as a number`);
+  }
+  return parsed;
+};
+
+// A dotted path such as `user.address.city`; missing fields give undefined
+const pickField = (value: unknown, path: string | undefined): unknown => {
+  if (!path) {
+    throw new Error('Pick Field needs a field path');
+  }
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (current, field) =>
+        isRecord(current) && Object.hasOwn(current, field)
+          ? current[field]
+          : undefined,
+      value
+    );
+};
+
+/**
+ * Convert a value the way the converter node of `converter` does, so an
+ * implicit coercion edge and an inserted converter behave the same
+ */
+export const convertValue = (
+  converter: ConverterKind,
+  value: unknown,
+  field?: string
+): unknown => {
+  switch (converter) {
+    case 'toString':
+      return toText(value);
+    case 'parseNumber':
+      return parseNumber(value);
+    case 'wrapInArray':
+      return [value];
+    case 'pickField':
+      return pickField(value, field);
+  }
+};
@@ -0,0 +1,165 @@
+/**
+ * Workflow Debugger
+ * Demonstrates: Promise-based Control Flow, Command Pattern, Observer Pattern
+ */
+
+import type { NodeId } from '../types/core';
+import type { NodeInputs } from '../types/execution';
+import type { DebugCommand, DebuggerEvent, PausedNode } from '../types/debug';
+import { TypedEventEmitter } from './event-emitter';
+
+interface PendingPause {
+  readonly paused: PausedNode;
+  readonly resolve: (command: DebugCommand) => void;
+}
+
+/**
+ * Holds nodes before they execute while a breakpoint is set on them or the
+ * user is stepping. Nodes that pause together are queued and shown one at
+ * a time.
+ */
+export class WorkflowDebugger {
+  readonly events: TypedEventEmitter<DebuggerEvent>;
+  private breakpoints: Set<NodeId>;
+  // Pause before whichever node runs next
+  private stepping: boolean;
+  private queue: PendingPause[];
+
+  constructor(breakpoints: Iterable<NodeId> = []) {
+    this.events = new TypedEventEmitter();
+    this.breakpoints = new Set(breakpoints);
+    this.stepping = false;
+    this.queue = [];
+  }
+
+  getBreakpoints(): ReadonlySet<NodeId> {
+    return this.breakpoints;
+  }
+
+  hasBreakpoint(nodeId: NodeId): boolean {
+    return this.breakpoints.has(nodeId);
+  }
+
+  toggleBreakpoint(nodeId: NodeId): void {
+    if (!this.breakpoints.delete(nodeId)) {
+      this.breakpoints.add(nodeId);
+    }
+    this.events.emit({
+      type: 'breakpoints-changed',
+      breakpoints: new Set(this.breakpoints),
+    });
+  }
+
+  /**
+   * The node currently shown as paused
+   */
+  getPaused(): PausedNode | undefined {
+    return this.queue[0]?.paused;
+  }
+
+  pauseReason(nodeId: NodeId): PausedNode['reason'] | undefined {
+    if (this.breakpoints.has(nodeId)) {
+      return 'breakpoint';
+    }
+    return this.stepping ? 'step' : undefined;
+  }
+
+  /**
+   * Start a run, pausing before its first node when `stepping`; the
+   * executor calls this so stepping never carries over from an earlier run
+   */
+  begin({ stepping = false }: { readonly stepping?: boolean } = {}): void {
+    this.reset();
+    this.stepping = stepping;
+  }
+
+  /**
+   * End a run: stop stepping and abort any pause still held
+   */
+  reset(): void {
+    this.stepping = false;
+    while (this.queue.length > 0) {
+      this.release(0)?.resolve({ type: 'abort' });
+    }
+  }
+
+  /**
+   * Hold a node until a command arrives; the pause is dropped without
+   * settling when `signal` aborts
+   */
+  pause(paused: PausedNode, signal: AbortSignal): Promise<DebugCommand> {
+    return new Promise<DebugCommand>((resolve) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(pending);
+        if (index !== -1) {
+          this.release(index);
+        }
+      };
+      const pending: PendingPause = {
+        paused,
+        resolve: (command) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(command);
+        },
+      };
+      this.queue.push(pending);
+      if (this.queue.length === 1) {
+        this.events.emit({ type: 'paused', paused });
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Run the paused node and pause again before the next one
+   */
+  step(inputs?: NodeInputs): void {
+    this.stepping = true;
+    this.settle({ type: 'step', inputs });
+  }
+
+  /**
+   * Run the paused node and carry on until the next breakpoint
+   */
+  resume(inputs?: NodeInputs): void {
+    this.stepping = false;
+    this.settle({ type: 'continue', inputs });
+
+    // Nodes queued only because we were stepping no longer need to wait
+    for (const pending of [...this.queue]) {
+      if (!this.breakpoints.has(pending.paused.nodeId)) {
+        this.release(this.queue.indexOf(pending))?.resolve({
+          type: 'continue',
+        });
+      }
+    }
+  }
+
+  /**
+   * Stop the run at the paused node, along with every queued node
+   */
+  abort(): void {
+    this.reset();
+  }
+
+  private settle(command: DebugCommand): void {
+    this.release(0)?.resolve(command);
+  }
+
+  // Remove a queued pause, moving the next one into view when it was shown
+  private release(index: number): PendingPause | undefined {
+    const [pending] = this.queue.splice(index, 1);
+    if (!pending) {
+      return undefined;
+    }
+    if (index === 0) {
+      this.events.emit({ type: 'resumed', nodeId: pending.paused.nodeId });
+      const next = this.queue[0];
+      if (next) {
+        this.events.emit({ type: 'paused', paused: next.paused });
+      }
+    }
+    return pending;
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Dry Runs - Stand-in outputs for effect nodes that must not run
+ * Demonstrates: Exhaustive Switches over Port Types
+ */
+
+import type { PortType, WorkflowNode } from '../types/core';
+import type {
+  IntendedSideEffect,
+  NodeInputs,
+  NodeOutputs,
+} from '../types/execution';
+import { ERROR_PORT } from '../types/nodes';
+
+/**
+ * The empty value of a port type, so downstream nodes see the right shape
+ */
+export const stubValue = (portType: PortType): unknown => {
+  const kind = portType.kind;
+  switch (kind) {
+    case 'string':
+      return '';
+    case 'number':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'object': {
+      if (!portType.fields) {
+        // The declared sample shape, copied so stubs never share state
+        return structuredClone(portType.type);
+      }
+      const stub: Record<string, unknown> = {};
+      for (const [name, field] of Object.entries(portType.fields)) {
+        if (!field.optional) {
+          stub[name] = stubValue(field.type);
+        }
+      }
+      return stub;
+    }
+    case 'array':
+      return [];
+    case 'tuple':
+      return portType.elements.map(stubValue);
+    case 'union':
+      return portType.members.length > 0
+        ? stubValue(portType.members[0])
+        : null;
+    case 'literal':
+      return portType.type;
+    case 'nullable':
+      return null;
+    case 'any':
+    case 'custom':
+    case 'var':
+      return null;
+    case 'void':
+      return undefined;
+    default: {
+      const _exhaustive: never = kind;
+      throw new Error(`Unknown port kind: ${_exhaustive}`);
+    }
+  }
+};
+
+/**
+ * Stub outputs for every regular output port of an effect node
+ */
+export const stubOutputs = (node: WorkflowNode): NodeOutputs => {
+  const outputs: NodeOutputs = {};
+  for (const port of node.outputs) {
+    if (port.id !== ERROR_PORT) {
+      outputs[port.id] = stubValue(port.portType);
+    }
+  }
+  return outputs;
+};
+
+export const intendedSideEffect = (
+  node: WorkflowNode,
+  inputs: NodeInputs
+): IntendedSideEffect => ({
+  nodeId: node.id,
+  nodeType: node.type,
+  label: node.label,
+  inputs: { ...inputs },
+  config: { ...node.data },
+});
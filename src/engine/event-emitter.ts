@@ -0,0 +1,69 @@
+/**
+ * Typed Event Emitter
+ * Demonstrates: Generic Constraints, Discriminated Union Narrowing
+ */
+
+type Listener<E> = (event: E) => void;
+
+export class TypedEventEmitter<E extends { readonly type: string }> {
+  private listeners: Map<E['type'], Set<Listener<E>>>;
+  private anyListeners: Set<Listener<E>>;
+
+  constructor() {
+    this.listeners = new Map();
+    this.anyListeners = new Set();
+  }
+
+  /**
+   * Listen for one event type; returns an unsubscribe function
+   */
+  on<T extends E['type']>(
+    type: T,
+    listener: Listener<Extract<E, { readonly type: T }>>
+  ): () => void {
+    // Only events of `type` reach the set, so widening the listener is safe
+    const wrapped = listener as Listener<E>;
+    const set = this.listeners.get(type) ?? new Set<Listener<E>>();
+    set.add(wrapped);
+    this.listeners.set(type, set);
+    return () => {
+      set.delete(wrapped);
+    };
+  }
+
+  /**
+   * Listen for every event; returns an unsubscribe function
+   */
+  onAny(listener: Listener<E>): () => void {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Deliver an event synchronously; a throwing listener does not stop the
+   * others or the emitter
+   */
+  emit(event: E): void {
+    const listeners = [
+      ...(this.listeners.get(event.type) ?? []),
+      ...this.anyListeners,
+    ];
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Event listener failed for ${event.type}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Remove every listener
+   */
+  clear(): void {
+    this.listeners.clear();
+    this.anyListeners.clear();
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Node Executor Registry
+ * Demonstrates: Registry Pattern, Adapter Pattern, Plugin Integration
+ */
+
+import type { NodeExecutor } from '../types/execution';
+import type { ExecutorPlugin, PluginRegistry } from '../types/plugin';
+import { isExecutorPlugin } from '../types/plugin';
+import { builtinExecutors } from './builtin-executors';
+
+// Adapt an executor plugin to the node executor contract
+export const fromExecutorPlugin = (plugin: ExecutorPlugin): NodeExecutor => ({
+  id: `plugin:${plugin.metadata.id}`,
+  canExecute: (nodeType) => plugin.canExecute(nodeType),
+  execute: (node, inputs, context) => plugin.execute(node, inputs, context),
+});
+
+export class NodeExecutorRegistry {
+  private executors: NodeExecutor[];
+  private resolved: Map<string, NodeExecutor | null>;
+
+  constructor(executors: ReadonlyArray<NodeExecutor> = []) {
+    this.executors = [...executors];
+    this.resolved = new Map();
+  }
+
+  /**
+   * Register an executor; later registrations take precedence
+   */
+  register(executor: NodeExecutor): void {
+    if (this.executors.some((e) => e.id === executor.id)) {
+      throw new Error(`Executor already registered: ${executor.id}`);
+    }
+    this.executors.push(executor);
+    this.resolved.clear();
+  }
+
+  /**
+   * Register an executor plugin through the same path as built-ins
+   */
+  registerPlugin(plugin: ExecutorPlugin): void {
+    this.register(fromExecutorPlugin(plugin));
+  }
+
+  /**
+   * Unregister an executor by id
+   */
+  unregister(executorId: string): void {
+    this.executors = this.executors.filter((e) => e.id !== executorId);
+    this.resolved.clear();
+  }
+
+  /**
+   * Resolve the executor for a node type
+   */
+  resolve(nodeType: string): NodeExecutor | undefined {
+    if (!this.resolved.has(nodeType)) {
+      const executor = this.executors
+        .slice()
+        .reverse()
+        .find((e) => e.canExecute(nodeType));
+      this.resolved.set(nodeType, executor ?? null);
+    }
+    return this.resolved.get(nodeType) ?? undefined;
+  }
+
+  /**
+   * Check if any executor handles a node type
+   */
+  has(nodeType: string): boolean {
+    return this.resolve(nodeType) !== undefined;
+  }
+
+  /**
+   * Copy this registry with every executor plugin from a plugin registry
+   */
+  withPlugins(plugins: PluginRegistry): NodeExecutorRegistry {
+    const registry = new NodeExecutorRegistry(this.executors);
+    for (const plugin of plugins.getByCapability('executor')) {
+      if (isExecutorPlugin(plugin)) {
+        registry.registerPlugin(plugin);
+      }
+    }
+    return registry;
+  }
+
+  /**
+   * List registered executors in resolution order (lowest precedence first)
+   */
+  list(): ReadonlyArray<NodeExecutor> {
+    return this.executors;
+  }
+}
+
+// Registry preloaded with the built-in executors
+export const createDefaultExecutorRegistry = (): NodeExecutorRegistry =>
+  new NodeExecutorRegistry(builtinExecutors);
@@ -6,39 +6,302 @@ import type {
   WorkflowGraph,
   WorkflowNode,
   NodeId,
+  RunId,
   ExecutionContext,
   ExecutionResult,
+  PartialExecution,
+  Edge,
+  InputPort,
+  TypeCheckMode,
 } from '../types/core';
+import { createNodeId, createRunId, isEffectNode } from '../types/core';
+import type {
+  ExecutionError,
+  IntendedSideEffect,
+  NodeAttempt,
+  NodeExecutionContext,
+  NodeFailure,
+  NodeInputs,
+  NodeOutputs,
+  SubgraphOptions,
+  TypeViolation,
+} from '../types/execution';
+import type { SubGraph, WorkflowRepository } from '../types/graph';
+import { INACTIVE_BRANCH } from '../types/execution';
+import { getCoercion } from '../types/compatibility';
+import { formatPortType } from '../types/port-types';
+import {
+  ERROR_PORT,
+  getErrorPolicy,
+  getPinnedOutputs,
+  hasErrorPort,
+  type ErrorPolicy,
+} from '../types/nodes';
+import type { PluginEvent, PluginRegistry } from '../types/plugin';
+import { isPluginEventHandler } from '../types/plugin';
+import type { JournalEntry, JournalStore } from '../types/journal';
+import type { ExecutionEvent, ExecutionEventInput } from '../types/events';
+import { TypedEventEmitter } from './event-emitter';
+import type { WorkflowDebugger } from './debugger';
+import { intendedSideEffect, stubOutputs } from './dry-run';
+import { convertValue } from './converters';
+import {
+  TypeViolationError,
+  checkPortValue,
+  formatTypeViolation,
+} from './value-check';
+import { BudgetUsage, formatBudgetExceeded } from './budget';
 import { GraphValidator } from './graph-validator';
-import { TypeInferenceEngine } from './type-inference';
+import { TypeInferenceEngine, formatNodeTypeError } from './type-inference';
+import {
+  NodeExecutorRegistry,
+  createDefaultExecutorRegistry,
+} from './executor-registry';
+import { globalPluginManager } from './plugin-manager';
+import { ExpressionCache, formatExpressionError } from './expression';
+import {
+  NodeInterruptedError,
+  abortAfter,
+  abortableDelay,
+  interruptionError,
+  linkSignal,
+  raceAbort,
+} from './cancellation';
+import {
+  describeError,
+  isRetryableError,
+  parseRetryPolicy,
+  retryDelay,
+} from './retry';
 
 export interface ExecutionState {
+  readonly runId: RunId;
   readonly nodeOutputs: Map<string, unknown>;
+  readonly inactivePorts: Set<string>;
   readonly executedNodes: Set<NodeId>;
+  readonly skippedNodes: Set<NodeId>;
+  // Nodes whose pinned outputs were used instead of running them
+  readonly pinnedNodes: Set<NodeId>;
+  // Inputs each executed node received, for inspecting a run
+  readonly nodeInputs: Map<NodeId, NodeInputs>;
+  // Nodes whose failure was routed or continued past by their error policy
+  readonly failedNodes: Set<NodeId>;
   readonly logs: string[];
+  // Log lines per node, appended to `logs` as one block when the node settles
+  readonly nodeLogs: Map<NodeId, string[]>;
+  readonly attempts: Map<NodeId, NodeAttempt[]>;
+  // Effects stubbed out by a dry run, including those of nested runs
+  readonly sideEffects: IntendedSideEffect[];
+  // Values that did not match their input port type, including nested runs
+  readonly typeViolations: TypeViolation[];
+}
+
+// Outcome of one scheduled node, so failures can be told apart in a race
+type NodeSettlement =
+  | { readonly nodeId: NodeId; readonly ok: true }
+  | { readonly nodeId: NodeId; readonly ok: false; readonly error: unknown };
+
+// Execution context plus the per-run resources shared by all nodes
+type RunContext = ExecutionContext & {
+  readonly expressions: ExpressionCache;
+  readonly signal: AbortSignal;
+  readonly usage: BudgetUsage;
+};
+
+export interface WorkflowExecutorOptions {
+  readonly executors?: NodeExecutorRegistry;
+  readonly plugins?: PluginRegistry;
+  // Journals each node completion so the run can be resumed
+  readonly journal?: JournalStore;
+  // Identifies the run in the journal; pass an earlier run's id to resume it
+  readonly runId?: RunId;
+  // Saved workflows that subworkflow nodes may run
+  readonly workflows?: WorkflowRepository;
+  // Node outputs taken as given instead of executing those nodes
+  readonly seeds?: ReadonlyMap<NodeId, NodeOutputs>;
+  // The run that started this one, for nested runs
+  readonly parent?: SubGraph;
+  // Pauses nodes at breakpoints; nested runs are not debugged
+  readonly debug?: WorkflowDebugger;
+  // With `debug`, pause before the first node even without a breakpoint
+  readonly stepping?: boolean;
+  // Outputs of an earlier run, feeding the slice of a partial run
+  readonly priorOutputs?: ReadonlyMap<NodeId, NodeOutputs>;
+  // Budget usage of the run that started this one, for nested runs
+  readonly usage?: BudgetUsage;
 }
 
+const emptyWorkflowRepository: WorkflowRepository = {
+  get: () => undefined,
+  list: () => [],
+};
+
 export class WorkflowExecutor {
   private graph: WorkflowGraph;
   private validator: GraphValidator;
   private typeInference: TypeInferenceEngine;
   private state: ExecutionState;
+  private executors: NodeExecutorRegistry;
+  private plugins: PluginRegistry;
+  private journal: JournalStore | undefined;
+  // Nodes restored from the journal, which are not executed again
+  private restored: Set<NodeId>;
+  private resumed: boolean;
+  private workflows: WorkflowRepository;
+  // This run's place in the chain of nested runs, and the runs it started
+  private subgraph: SubGraph;
+  private children: SubGraph[];
+  // Live progress of the run; listeners are called synchronously
+  readonly events: TypedEventEmitter<ExecutionEvent>;
+  private debug: WorkflowDebugger | undefined;
+  private stepping: boolean;
+  private priorOutputs: ReadonlyMap<NodeId, NodeOutputs>;
+  private usage: BudgetUsage | undefined;
 
-  constructor(graph: WorkflowGraph) {
+  constructor(graph: WorkflowGraph, options: WorkflowExecutorOptions = {}) {
     this.graph = graph;
-    this.validator = new GraphValidator(graph);
+    this.executors = options.executors ?? createDefaultExecutorRegistry();
+    this.plugins = options.plugins ?? globalPluginManager;
+    this.journal = options.journal;
+    this.restored = new Set();
+    this.resumed = false;
+    this.workflows = options.workflows ?? emptyWorkflowRepository;
+    this.events = new TypedEventEmitter();
+    this.debug = options.debug;
+    this.stepping = options.stepping ?? false;
+    this.priorOutputs = options.priorOutputs ?? new Map();
+    this.usage = options.usage;
+    this.children = [];
+    this.subgraph = {
+      id: graph.id,
+      parent: options.parent,
+      graph,
+      children: this.children,
+    };
+    this.validator = new GraphValidator(graph, this.workflows);
     this.typeInference = new TypeInferenceEngine(graph);
     this.state = {
+      runId: options.runId ?? createRunId(crypto.randomUUID()),
       nodeOutputs: new Map(),
+      inactivePorts: new Set(),
       executedNodes: new Set(),
+      skippedNodes: new Set(),
+      pinnedNodes: new Set(),
+      nodeInputs: new Map(),
+      failedNodes: new Set(),
       logs: [],
+      nodeLogs: new Map(),
+      attempts: new Map(),
+      sideEffects: [],
+      typeViolations: [],
     };
+
+    for (const [nodeId, outputs] of options.seeds ?? []) {
+      this.seedNode(nodeId, outputs);
+    }
   }
 
   /**
    * Execute the workflow
    */
   async execute(context: ExecutionContext): Promise<ExecutionResult> {
+    const startedAt = Date.now();
+    this.emit({ type: 'run-started', workflowId: context.workflowId });
+
+    // The debugger is shared between runs; its state belongs to this one
+    this.debug?.begin({ stepping: this.stepping });
+    let result: ExecutionResult;
+    try {
+      result = await this.run(context);
+    } finally {
+      this.debug?.reset();
+    }
+
+    try {
+      await this.appendJournal({
+        type: 'run-finished',
+        runId: this.state.runId,
+        success: result.success,
+        error: result.success ? undefined : result.error.message,
+      });
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+        logs: this.state.logs,
+      };
+    }
+
+    this.emit({
+      type: 'run-finished',
+      workflowId: context.workflowId,
+      success: result.success,
+      error: result.success ? undefined : result.error.message,
+      durationMs: Date.now() - startedAt,
+    });
+
+    if (this.state.typeViolations.length > 0) {
+      result = { ...result, typeViolations: this.state.typeViolations };
+    }
+    if (context.mode === 'dry-run') {
+      return { ...result, sideEffects: this.state.sideEffects };
+    }
+    return result;
+  }
+
+  /**
+   * Resume a journaled run: nodes that completed before are restored from
+   * the journal rather than executed again, so succeeded effects never repeat
+   */
+  async resume(context: ExecutionContext): Promise<ExecutionResult> {
+    const { runId } = this.state;
+    if (!this.journal) {
+      return {
+        success: false,
+        error: new Error('Cannot resume: no journal store configured'),
+        logs: this.state.logs,
+      };
+    }
+
+    let entries: ReadonlyArray<JournalEntry>;
+    try {
+      entries = await this.journal.read(runId);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+        logs: this.state.logs,
+      };
+    }
+
+    if (!entries.some((entry) => entry.type === 'run-started')) {
+      return {
+        success: false,
+        error: new Error(`Cannot resume: run ${runId} is not in the journal`),
+        logs: this.state.logs,
+      };
+    }
+
+    for (const entry of entries) {
+      if (entry.type === 'node-completed') {
+        this.restoreNode(entry);
+      }
+    }
+
+    this.resumed = true;
+    this.log(`Resuming run ${runId}: ${this.restored.size} nodes restored`);
+    return this.execute(context);
+  }
+
+  private async run(context: ExecutionContext): Promise<ExecutionResult> {
+    // One controller per run, aborted by the caller's signal, the run
+    // timeout or the wall time budget
+    const run = new AbortController();
+    const unlinkSignal = linkSignal(context.signal, run);
+    const clearRunTimeout = abortAfter(run, context.timeoutMs, 'run');
+    const usage = this.usage ?? new BudgetUsage(context.budget);
+    const clearWallTime = usage.abortOnWallTime(run);
+
     try {
       // Validate graph
       const validation = this.validator.validate();
@@ -52,8 +315,12 @@ export class WorkflowExecutor {
         };
       }
 
-      // Infer types
+      // Infer types; unification errors are diagnostics and do not stop the
+      // run, since the validator already rejects invalid edges
       this.typeInference.inferTypes();
+      for (const error of this.typeInference.getTypeErrors()) {
+        this.log(formatNodeTypeError(error));
+      }
       this.log('Type inference complete');
 
       // Get execution order
@@ -66,13 +333,44 @@ export class WorkflowExecutor {
         };
       }
 
-      // Execute nodes in order
-      for (const nodeId of topSort.order) {
-        await this.executeNode(nodeId, context);
+      // Resolve executors, including plugin-provided ones
+      const executors = this.executors.withPlugins(this.plugins);
+
+      // Compile expressions once per run, before any node executes
+      const expressions = new ExpressionCache();
+      const errors = this.prepareNodes(executors, expressions);
+      if (errors.length > 0) {
+        for (const error of errors) {
+          this.log(formatExecutionError(error));
+        }
+        return {
+          success: false,
+          error: new Error(`Preparation failed: ${errors.length} errors`),
+          errors,
+          logs: this.state.logs,
+        };
       }
 
+      const slice = context.partial && this.applyPartial(context.partial);
+      this.applyPins(topSort.order);
+
+      await this.appendJournal({
+        type: 'run-started',
+        runId: this.state.runId,
+        workflowId: context.workflowId,
+        timestamp: context.timestamp,
+        resumed: this.resumed,
+      });
+
+      // Execute nodes as their upstream nodes complete
+      await this.runScheduled(
+        topSort.order,
+        { ...context, expressions, signal: run.signal, usage },
+        executors
+      );
+
       // Collect final outputs
-      const outputs = this.collectOutputs();
+      const outputs = this.collectOutputs(slice);
 
       return {
         success: true,
@@ -80,51 +378,664 @@ export class WorkflowExecutor {
         logs: this.state.logs,
       };
     } catch (error) {
+      if (error instanceof NodeInterruptedError) {
+        this.log(error.message);
+        return {
+          success: false,
+          error,
+          errors: [error.error],
+          logs: this.state.logs,
+        };
+      }
       return {
         success: false,
         error: error instanceof Error ? error : new Error(String(error)),
         logs: this.state.logs,
       };
+    } finally {
+      unlinkSignal();
+      clearRunTimeout();
+      clearWallTime();
+    }
+  }
+
+  /**
+   * Limit the run to the slice around `partial.nodeId`. Nodes outside it do
+   * not run, except that nodes feeding the slice supply their pinned or
+   * prior outputs.
+   */
+  private applyPartial(partial: PartialExecution): ReadonlySet<NodeId> {
+    const target = this.graph.nodes.find((n) => n.id === partial.nodeId);
+    if (!target) {
+      throw new Error(
+        `Cannot run partially: node not found: ${partial.nodeId}`
+      );
+    }
+    const slice =
+      partial.mode === 'to'
+        ? this.validator.upstreamOf(target.id)
+        : this.validator.downstreamOf(target.id);
+
+    for (const node of this.graph.nodes) {
+      if (slice.has(node.id) || this.restored.has(node.id)) {
+        continue;
+      }
+      const feedsSlice = this.graph.edges.some(
+        (e) => e.source === node.id && slice.has(e.target)
+      );
+      if (!feedsSlice) {
+        this.restored.add(node.id);
+        continue;
+      }
+      // Pinned nodes are seeded by applyPins
+      if (getPinnedOutputs(node)) {
+        continue;
+      }
+      const prior = this.priorOutputs.get(node.id);
+      if (!prior) {
+        throw new Error(
+          `Cannot run from ${target.id}: upstream node ${node.id} has no pinned or earlier output`
+        );
+      }
+      this.seedNode(node.id, prior);
+    }
+
+    this.log(
+      `Partial run ${partial.mode} ${target.label}: ${slice.size} of ${this.graph.nodes.length} nodes`
+    );
+    return slice;
+  }
+
+  /**
+   * Use pinned outputs in place of their nodes, and skip nodes that only
+   * feed pinned nodes. Ports without a pin are branches not taken.
+   */
+  private applyPins(order: ReadonlyArray<NodeId>): void {
+    for (const node of this.graph.nodes) {
+      const pins = getPinnedOutputs(node);
+      if (!pins || this.restored.has(node.id)) {
+        continue;
+      }
+
+      const outputs: NodeOutputs = {};
+      for (const port of node.outputs) {
+        outputs[port.id] = port.id in pins ? pins[port.id] : INACTIVE_BRANCH;
+      }
+      this.seedNode(node.id, outputs);
+      this.state.pinnedNodes.add(node.id);
+      this.log(`Node pinned: ${node.label}`);
+      this.emit({
+        type: 'node-succeeded',
+        nodeId: node.id,
+        outputs,
+        durationMs: 0,
+        pinned: true,
+      });
+    }
+
+    if (this.state.pinnedNodes.size === 0) {
+      return;
+    }
+
+    // Walk upstream so every target is settled before its sources
+    const bypassed = new Set<NodeId>();
+    for (const nodeId of [...order].reverse()) {
+      if (this.restored.has(nodeId)) {
+        continue;
+      }
+      const targets = this.graph.edges
+        .filter((e) => e.source === nodeId)
+        .map((e) => e.target);
+      if (
+        targets.length > 0 &&
+        targets.every(
+          (target) => this.state.pinnedNodes.has(target) || bypassed.has(target)
+        )
+      ) {
+        bypassed.add(nodeId);
+      }
+    }
+
+    for (const nodeId of bypassed) {
+      const node = this.graph.nodes.find((n) => n.id === nodeId);
+      this.state.skippedNodes.add(nodeId);
+      this.restored.add(nodeId);
+      this.log(`Node skipped (upstream of pinned outputs): ${node?.label}`);
+      this.emit({ type: 'node-skipped', nodeId });
+    }
+  }
+
+  /**
+   * Run every executor's prepare hook and collect per-node errors
+   */
+  private prepareNodes(
+    executors: NodeExecutorRegistry,
+    expressions: ExpressionCache
+  ): ExecutionError[] {
+    const errors: ExecutionError[] = [];
+
+    for (const node of this.graph.nodes) {
+      const retry = parseRetryPolicy(node);
+      if (!retry.success) {
+        errors.push({
+          type: 'invalid-retry-policy',
+          nodeId: node.id,
+          message: retry.message,
+        });
+      }
+
+      const executor = executors.resolve(node.type);
+      if (executor?.prepare) {
+        errors.push(...executor.prepare(node, expressions));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Start each node once all of its upstream nodes have finished, keeping at
+   * most `maxConcurrency` nodes in flight. Ready nodes start in topological
+   * order; after a failure no new nodes start and the first error is thrown
+   * once running nodes settle.
+   */
+  private async runScheduled(
+    order: ReadonlyArray<NodeId>,
+    context: RunContext,
+    executors: NodeExecutorRegistry
+  ): Promise<void> {
+    const limit = WorkflowExecutor.concurrencyLimit(context.maxConcurrency);
+    const rank = new Map(order.map((nodeId, index) => [nodeId, index]));
+
+    // Count unfinished upstream edges per node
+    const pending = new Map<NodeId, number>(order.map((id) => [id, 0]));
+    const downstream = new Map<NodeId, NodeId[]>(order.map((id) => [id, []]));
+    for (const edge of this.graph.edges) {
+      pending.set(edge.target, (pending.get(edge.target) ?? 0) + 1);
+      downstream.get(edge.source)?.push(edge.target);
+    }
+
+    const ready = order.filter((nodeId) => pending.get(nodeId) === 0);
+    const running = new Map<NodeId, Promise<NodeSettlement>>();
+    let failure: { readonly error: unknown } | undefined;
+
+    while (running.size > 0 || (!failure && ready.length > 0)) {
+      while (!failure && ready.length > 0 && running.size < limit) {
+        const nodeId = ready.shift();
+        if (nodeId === undefined) {
+          break;
+        }
+        running.set(
+          nodeId,
+          this.executeNode(nodeId, context, executors).then(
+            (): NodeSettlement => ({ nodeId, ok: true }),
+            (error: unknown): NodeSettlement => ({ nodeId, ok: false, error })
+          )
+        );
+      }
+
+      const settled = await Promise.race(running.values());
+      running.delete(settled.nodeId);
+
+      if (!settled.ok) {
+        failure ??= { error: settled.error };
+        continue;
+      }
+
+      for (const target of downstream.get(settled.nodeId) ?? []) {
+        const remaining = (pending.get(target) ?? 0) - 1;
+        pending.set(target, remaining);
+        if (remaining === 0) {
+          ready.push(target);
+        }
+      }
+      ready.sort((a, b) => (rank.get(a) ?? 0) - (rank.get(b) ?? 0));
+    }
+
+    if (failure) {
+      throw failure.error;
     }
   }
 
   /**
-   * Execute a single node
+   * Execute a single node, buffering its log lines so they stay contiguous
+   * when nodes run concurrently
    */
   private async executeNode(
     nodeId: NodeId,
-    context: ExecutionContext
+    context: RunContext,
+    executors: NodeExecutorRegistry
   ): Promise<void> {
+    if (this.restored.has(nodeId)) {
+      return;
+    }
+
     const node = this.graph.nodes.find((n) => n.id === nodeId);
     if (!node) {
       throw new Error(`Node not found: ${nodeId}`);
     }
 
-    this.log(`Executing node: ${node.label} (${node.type})`);
+    const logs: string[] = [];
+    const log = (message: string) => {
+      logs.push(WorkflowExecutor.formatLogLine(message));
+      this.emit({ type: 'log', nodeId, message });
+    };
+
+    try {
+      await this.runNode(node, context, executors, log);
+    } finally {
+      this.state.nodeLogs.set(nodeId, logs);
+      this.state.logs.push(...logs);
+    }
+
+    // Stubbed outputs must never be restored into a live run
+    if (context.mode !== 'dry-run') {
+      await this.journalNode(nodeId, logs);
+    }
+  }
+
+  /**
+   * Journal a settled node with everything needed to restore it
+   */
+  private async journalNode(
+    nodeId: NodeId,
+    logs: ReadonlyArray<string>
+  ): Promise<void> {
+    if (!this.journal) {
+      return;
+    }
 
-    // Gather inputs
-    const inputs = this.gatherInputs(node);
+    const prefix = WorkflowExecutor.makeKey(nodeId, '');
+    const outputs: Record<string, unknown> = {};
+    for (const [key, value] of this.state.nodeOutputs) {
+      if (key.startsWith(prefix)) {
+        outputs[key.slice(prefix.length)] = value;
+      }
+    }
+    const inactivePorts = Array.from(this.state.inactivePorts)
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => key.slice(prefix.length));
 
-    // Execute based on node type
-    const outputs = await this.executeNodeLogic(node, inputs, context);
+    await this.appendJournal({
+      type: 'node-completed',
+      runId: this.state.runId,
+      nodeId,
+      status: this.state.skippedNodes.has(nodeId)
+        ? 'skipped'
+        : this.state.failedNodes.has(nodeId)
+          ? 'failed'
+          : 'executed',
+      outputs,
+      inactivePorts,
+      logs,
+      attempts: this.state.attempts.get(nodeId) ?? [],
+    });
+  }
 
-    // Store outputs
+  /**
+   * Take the outputs of a node as given; it will not be executed
+   */
+  private seedNode(nodeId: NodeId, outputs: NodeOutputs): void {
     for (const [portId, value] of Object.entries(outputs)) {
+      const key = WorkflowExecutor.makeKey(nodeId, portId);
+      if (value === INACTIVE_BRANCH) {
+        this.state.inactivePorts.add(key);
+      } else {
+        this.state.nodeOutputs.set(key, value);
+      }
+    }
+    this.state.executedNodes.add(nodeId);
+    this.restored.add(nodeId);
+  }
+
+  /**
+   * Rebuild the state of a node from its journal entry
+   */
+  private restoreNode(
+    entry: Extract<JournalEntry, { type: 'node-completed' }>
+  ): void {
+    const { nodeId } = entry;
+    if (!this.graph.nodes.some((n) => n.id === nodeId)) {
+      return;
+    }
+
+    for (const [portId, value] of Object.entries(entry.outputs)) {
       this.state.nodeOutputs.set(
         WorkflowExecutor.makeKey(nodeId, portId),
         value
       );
     }
+    for (const portId of entry.inactivePorts) {
+      this.state.inactivePorts.add(WorkflowExecutor.makeKey(nodeId, portId));
+    }
+
+    const status = entry.status;
+    if (status === 'executed') {
+      this.state.executedNodes.add(nodeId);
+    } else if (status === 'skipped') {
+      this.state.skippedNodes.add(nodeId);
+    } else if (status === 'failed') {
+      this.state.failedNodes.add(nodeId);
+    } else {
+      const _exhaustive: never = status;
+      throw new Error(`Unknown journaled status: ${_exhaustive}`);
+    }
+
+    this.state.nodeLogs.set(nodeId, [...entry.logs]);
+    this.state.logs.push(...entry.logs);
+    this.state.attempts.set(nodeId, [...entry.attempts]);
+    this.restored.add(nodeId);
+  }
+
+  private async appendJournal(entry: JournalEntry): Promise<void> {
+    await this.journal?.append(entry);
+  }
+
+  private async runNode(
+    node: WorkflowNode,
+    context: RunContext,
+    executors: NodeExecutorRegistry,
+    log: (message: string) => void
+  ): Promise<void> {
+    const nodeId = node.id;
+
+    if (this.isOnInactiveBranch(node)) {
+      this.state.skippedNodes.add(nodeId);
+      log(`Node skipped (inactive branch): ${node.label}`);
+      this.emit({ type: 'node-skipped', nodeId });
+      return;
+    }
+
+    // Node signal: aborted by the run signal or this node's timeout, which
+    // starts once the node is past any debugger pause
+    const controller = new AbortController();
+    const unlinkSignal = linkSignal(context.signal, controller);
+    let clearNodeTimeout = () => {};
+    const { signal } = controller;
+    const interrupted = () => {
+      const error = interruptionError(nodeId, signal);
+      return new NodeInterruptedError(error, formatExecutionError(error));
+    };
+
+    let startedAt = Date.now();
+    let outputs: NodeOutputs;
+    let failed = false;
+    let failure: unknown;
+    try {
+      if (signal.aborted) {
+        throw interrupted();
+      }
+
+      log(`Executing node: ${node.label} (${node.type})`);
+
+      // Gather inputs, which the debugger may replace while paused
+      const inputs = await this.debugPause(
+        nodeId,
+        this.gatherInputs(node, context.typeCheck ?? 'lenient', log),
+        signal,
+        interrupted
+      );
+      context.usage.countNodeExecution(nodeId);
+
+      clearNodeTimeout = abortAfter(
+        controller,
+        WorkflowExecutor.nodeTimeout(node, context),
+        'node'
+      );
+      startedAt = Date.now();
+      this.state.nodeInputs.set(nodeId, inputs);
+      this.emit({ type: 'node-started', nodeId, inputs });
+
+      // Execute via the executor registered for this node type, unless a
+      // dry run stands in for an effect
+      outputs =
+        context.mode === 'dry-run' && isEffectNode(node)
+          ? this.stubEffect(node, inputs, log)
+          : await this.executeWithRetry(
+              node,
+              inputs,
+              {
+                ...context,
+                signal,
+                log,
+                workflows: this.workflows,
+                runSubgraph: (graph, variables, options) =>
+                  this.runSubgraph(
+                    nodeId,
+                    graph,
+                    variables,
+                    { ...context, signal },
+                    options
+                  ),
+              },
+              executors,
+              interrupted
+            );
+      context.usage.countOutputs(nodeId, outputs);
+    } catch (error) {
+      const policy = this.errorPolicy(node);
+      if (policy === 'fail' || WorkflowExecutor.interruptsRun(error)) {
+        this.emit({
+          type: 'node-failed',
+          nodeId,
+          error: describeError(error),
+          handled: false,
+          durationMs: Date.now() - startedAt,
+        });
+        throw error;
+      }
+      log(
+        `Node failed, ${policy === 'route' ? 'routing error' : 'continuing'}: ${node.label}: ${describeError(error)}`
+      );
+      outputs = this.failureOutputs(node, policy, error);
+      failed = true;
+      failure = error;
+    } finally {
+      unlinkSignal();
+      clearNodeTimeout();
+    }
+
+    // The error port is a branch taken only on failure
+    if (hasErrorPort(node) && !(ERROR_PORT in outputs)) {
+      outputs = { ...outputs, [ERROR_PORT]: INACTIVE_BRANCH };
+    }
+
+    // Store outputs, remembering which branch ports were not taken
+    for (const [portId, value] of Object.entries(outputs)) {
+      const key = WorkflowExecutor.makeKey(nodeId, portId);
+      if (value === INACTIVE_BRANCH) {
+        this.state.inactivePorts.add(key);
+      } else {
+        this.state.nodeOutputs.set(key, value);
+      }
+    }
+
+    if (failed) {
+      this.state.failedNodes.add(nodeId);
+      this.emit({
+        type: 'node-failed',
+        nodeId,
+        error: describeError(failure),
+        handled: true,
+        outputs,
+        durationMs: Date.now() - startedAt,
+      });
+      return;
+    }
 
     this.state.executedNodes.add(nodeId);
-    this.log(`Node executed: ${node.label}`);
+    log(`Node executed: ${node.label}`);
+    this.emit({
+      type: 'node-succeeded',
+      nodeId,
+      outputs,
+      durationMs: Date.now() - startedAt,
+    });
+  }
+
+  /**
+   * Hold the node in the debugger when it has a breakpoint or the user is
+   * stepping; resolves to the inputs to run it with
+   */
+  private async debugPause(
+    nodeId: NodeId,
+    inputs: NodeInputs,
+    signal: AbortSignal,
+    interrupted: () => NodeInterruptedError
+  ): Promise<NodeInputs> {
+    const reason = this.debug?.pauseReason(nodeId);
+    if (!this.debug || !reason) {
+      return inputs;
+    }
+
+    this.emit({ type: 'node-paused', nodeId, inputs });
+    const command = await raceAbort(
+      this.debug.pause(
+        { runId: this.state.runId, nodeId, inputs, reason },
+        signal
+      ),
+      signal,
+      interrupted
+    );
+
+    if (command.type === 'abort') {
+      const error: ExecutionError = {
+        type: 'aborted',
+        nodeId,
+        reason: 'Aborted in debugger',
+      };
+      throw new NodeInterruptedError(error, formatExecutionError(error));
+    }
+    return command.inputs ?? inputs;
+  }
+
+  /**
+   * Run an embedded graph with a nested executor; it shares executors,
+   * plugins and limits, and stops when the calling node's signal aborts
+   */
+  private async runSubgraph(
+    nodeId: NodeId,
+    graph: WorkflowGraph,
+    variables: ReadonlyMap<string, unknown>,
+    context: RunContext,
+    options: SubgraphOptions = {}
+  ): Promise<ExecutionResult> {
+    const chain: string[] = [];
+    for (let run: SubGraph | undefined = this.subgraph; run; run = run.parent) {
+      chain.unshift(run.graph.id);
+    }
+    if (chain.includes(graph.id)) {
+      throw new Error(
+        `Recursive subworkflow: ${[...chain, graph.id].join(' -> ')}`
+      );
+    }
+    context.usage.checkDepth(nodeId, chain.length);
+
+    const nested = new WorkflowExecutor(graph, {
+      executors: this.executors,
+      plugins: this.plugins,
+      workflows: this.workflows,
+      seeds: options.seeds,
+      parent: this.subgraph,
+      usage: context.usage,
+    });
+    this.children.push(nested.subgraph);
+    const result = await nested.execute({
+      workflowId: graph.id,
+      variables,
+      timestamp: context.timestamp,
+      maxConcurrency: context.maxConcurrency,
+      nodeTimeoutMs: context.nodeTimeoutMs,
+      signal: context.signal,
+      mode: context.mode,
+      budget: context.budget,
+      typeCheck: context.typeCheck,
+    });
+    this.state.sideEffects.push(...(result.sideEffects ?? []));
+    this.state.typeViolations.push(...(result.typeViolations ?? []));
+
+    // A nested run over budget stops this run too, whatever the caller does
+    // with failed nested runs
+    const exceeded =
+      !result.success &&
+      result.errors?.find((error) => error.type === 'budget-exceeded');
+    if (exceeded) {
+      throw new NodeInterruptedError(exceeded, formatExecutionError(exceeded));
+    }
+    return result;
+  }
+
+  /**
+   * Record what an effect node would have done and return stub outputs
+   */
+  private stubEffect(
+    node: WorkflowNode,
+    inputs: NodeInputs,
+    log: (message: string) => void
+  ): NodeOutputs {
+    this.state.sideEffects.push(intendedSideEffect(node, inputs));
+    log(`Dry run: stubbed ${node.label} (${node.type})`);
+    return stubOutputs(node);
+  }
+
+  private errorPolicy(node: WorkflowNode): ErrorPolicy {
+    const connected = this.graph.edges.some(
+      (e) => e.source === node.id && e.sourcePort === ERROR_PORT
+    );
+    return getErrorPolicy(node, connected);
+  }
+
+  /**
+   * Outputs of a failed node: `route` leaves regular ports untaken, while
+   * `continue` leaves them empty so downstream nodes still run
+   */
+  private failureOutputs(
+    node: WorkflowNode,
+    policy: Exclude<ErrorPolicy, 'fail'>,
+    error: unknown
+  ): NodeOutputs {
+    const outputs: NodeOutputs = {};
+    for (const port of node.outputs) {
+      outputs[port.id] = policy === 'route' ? INACTIVE_BRANCH : undefined;
+    }
+
+    if (hasErrorPort(node)) {
+      const failure: NodeFailure = {
+        nodeId: node.id,
+        name: error instanceof Error ? error.name : 'Error',
+        message: error instanceof Error ? error.message : String(error),
+        attempts: this.state.attempts.get(node.id)?.length ?? 0,
+      };
+      outputs[ERROR_PORT] = failure;
+    }
+
+    return outputs;
+  }
+
+  /**
+   * A node runs only when every incoming edge is live: an edge is dead when
+   * its source node was skipped or its source port is an inactive branch
+   */
+  private isOnInactiveBranch(node: WorkflowNode): boolean {
+    return this.graph.edges.some(
+      (e) =>
+        e.target === node.id &&
+        (this.state.skippedNodes.has(e.source) ||
+          this.state.inactivePorts.has(
+            WorkflowExecutor.makeKey(e.source, e.sourcePort)
+          ))
+    );
   }
 
   /**
    * Gather inputs for a node from connected outputs
    */
-  private gatherInputs(node: WorkflowNode): Record<string, unknown> {
-    const inputs: Record<string, unknown> = {};
+  private gatherInputs(
+    node: WorkflowNode,
+    typeCheck: TypeCheckMode,
+    log: (message: string) => void
+  ): NodeInputs {
+    const inputs: NodeInputs = {};
 
     for (const input of node.inputs) {
       const edge = this.graph.edges.find(
@@ -133,7 +1044,14 @@ export class WorkflowExecutor {
 
       if (edge) {
         const key = WorkflowExecutor.makeKey(edge.source, edge.sourcePort);
-        const value = this.state.nodeOutputs.get(key);
+        const value = this.coerceInput(
+          edge,
+          input,
+          this.state.nodeOutputs.get(key)
+        );
+        if (typeCheck !== 'off') {
+          this.checkInput(edge, input, value, typeCheck === 'strict', log);
+        }
         inputs[input.id] = value;
       } else if (input.required) {
         throw new Error(`Required input not connected: ${node.id}:${input.id}`);
@@ -144,144 +1062,164 @@ export class WorkflowExecutor {
   }
 
   /**
-   * Execute node-specific logic
+   * Convert a value crossing a coercion edge, as a converter node there
+   * would; values on edges whose types connect as they are pass unchanged
    */
-  private async executeNodeLogic(
-    node: WorkflowNode,
-    inputs: Record<string, unknown>,
-    context: ExecutionContext
-  ): Promise<Record<string, unknown>> {
-    // This is a simplified execution - in a real system, this would
-    // delegate to node-specific executors or plugins
-
-    const category = node.category;
-
-    if (category === 'trigger') {
-      return WorkflowExecutor.executeTrigger(node, context);
-    } else if (category === 'logic') {
-      return WorkflowExecutor.executeLogic(node, inputs);
-    } else if (category === 'transform') {
-      return WorkflowExecutor.executeTransform(node, inputs);
-    } else if (category === 'effect') {
-      return await this.executeEffect(node, inputs);
-    } else if (category === 'data') {
-      return WorkflowExecutor.executeData(node);
-    } else {
-      const _exhaustive: never = category;
-      throw new Error(`Unknown node category: ${_exhaustive}`);
+  private coerceInput(edge: Edge, input: InputPort, value: unknown): unknown {
+    if (value === undefined || value === INACTIVE_BRANCH) {
+      return value;
     }
+    const sourcePort = this.graph.nodes
+      .find((n) => n.id === edge.source)
+      ?.outputs.find((p) => p.id === edge.sourcePort);
+    const coercion =
+      sourcePort && getCoercion(sourcePort.portType, input.portType);
+    return coercion && coercion.level !== 'forbidden'
+      ? convertValue(coercion.converter, value)
+      : value;
   }
 
   /**
-   * Execute trigger node
+   * Check a value against the type of the input port it arrives at. Strict
+   * runs fail the node; lenient ones log the violation and go on.
    */
-  private static executeTrigger(
-    node: WorkflowNode,
-    context: ExecutionContext
-  ): Record<string, unknown> {
-    if (node.type === 'trigger.http') {
-      return {
-        request: { method: 'GET', url: '/', timestamp: context.timestamp },
-      };
-    } else if (node.type === 'trigger.timer') {
-      return { timestamp: context.timestamp };
-    } else if (node.type === 'trigger.manual') {
-      return { data: context.variables.get('triggerData') };
+  private checkInput(
+    edge: Edge,
+    input: InputPort,
+    value: unknown,
+    strict: boolean,
+    log: (message: string) => void
+  ): void {
+    if (value === undefined || value === INACTIVE_BRANCH) {
+      return;
+    }
+    const mismatch = checkPortValue(value, input.portType);
+    if (!mismatch) {
+      return;
     }
-    return {};
-  }
 
-  /**
-   * Execute logic node
-   */
-  private static executeLogic(
-    node: WorkflowNode,
-    inputs: Record<string, unknown>
-  ): Record<string, unknown> {
-    if (node.type === 'logic.if') {
-      const condition = Boolean(inputs.condition);
-      return { true: condition, false: !condition };
-    } else if (node.type === 'logic.compare') {
-      const result = inputs.a === inputs.b;
-      return { result };
-    } else if (node.type === 'logic.switch') {
-      // Simplified switch logic
-      return { case1: true, case2: false, default: false };
+    const violation: TypeViolation = {
+      edgeId: edge.id,
+      source: edge.source,
+      sourcePort: edge.sourcePort,
+      target: edge.target,
+      targetPort: edge.targetPort,
+      expected: formatPortType(input.portType),
+      ...mismatch,
+    };
+    this.state.typeViolations.push(violation);
+    this.emit({
+      type: 'type-violation',
+      nodeId: edge.target,
+      violation,
+      strict,
+    });
+    if (strict) {
+      throw new TypeViolationError(violation);
     }
-    return {};
+    log(`Warning: ${formatTypeViolation(violation)}`);
   }
 
   /**
-   * Execute transform node
+   * Execute the node, retrying failed attempts per `node.data.retry`
    */
-  private static executeTransform(
+  private async executeWithRetry(
     node: WorkflowNode,
-    inputs: Record<string, unknown>
-  ): Record<string, unknown> {
-    const input = inputs.input;
-
-    if (node.type === 'transform.map') {
-      if (Array.isArray(input)) {
-        // In a real system, this would use the configured map function
-        return { output: input.map((x) => x) };
-      }
-    } else if (node.type === 'transform.filter') {
-      if (Array.isArray(input)) {
-        return { output: input.filter(() => true) };
-      }
-    } else if (node.type === 'transform.reduce') {
-      if (Array.isArray(input)) {
-        return {
-          output: input.reduce((acc, x) => acc + x, inputs.initial || 0),
-        };
+    inputs: NodeInputs,
+    context: NodeExecutionContext,
+    executors: NodeExecutorRegistry,
+    interrupted: () => NodeInterruptedError
+  ): Promise<NodeOutputs> {
+    const retry = parseRetryPolicy(node);
+    const policy = retry.success ? retry.policy : undefined;
+    const maxAttempts = policy?.maxAttempts ?? 1;
+    const attempts: NodeAttempt[] = [];
+    this.state.attempts.set(node.id, attempts);
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+      try {
+        const outputs = await raceAbort(
+          this.executeNodeLogic(node, inputs, context, executors),
+          context.signal,
+          interrupted
+        );
+        attempts.push({
+          attempt,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+        });
+        return outputs;
+      } catch (error) {
+        const durationMs = Date.now() - startedAt;
+        if (
+          error instanceof NodeInterruptedError ||
+          !policy ||
+          attempt >= maxAttempts ||
+          !isRetryableError(policy, error)
+        ) {
+          attempts.push({
+            attempt,
+            startedAt,
+            durationMs,
+            error: describeError(error),
+          });
+          if (policy) {
+            context.log(
+              `Attempt ${attempt}/${maxAttempts} failed for ${node.label}, giving up: ${describeError(error)}`
+            );
+          }
+          throw error;
+        }
+
+        const delayMs = retryDelay(policy, attempt);
+        attempts.push({
+          attempt,
+          startedAt,
+          durationMs,
+          error: describeError(error),
+          retryDelayMs: delayMs,
+        });
+        context.log(
+          `Attempt ${attempt}/${maxAttempts} failed for ${node.label}, retrying in ${delayMs}ms: ${describeError(error)}`
+        );
+        await abortableDelay(delayMs, context.signal, interrupted);
       }
     }
-
-    return { output: input };
   }
 
   /**
-   * Execute effect node (async) — uses `this.log`, so remains an instance method
+   * Execute node-specific logic via the resolved node executor
    */
-  private async executeEffect(
+  private async executeNodeLogic(
     node: WorkflowNode,
-    inputs: Record<string, unknown>
-  ): Promise<Record<string, unknown>> {
-    if (node.type === 'effect.http') {
-      // Simulate HTTP request
-      this.log(`HTTP Request: ${inputs.url}`);
-      return { response: { status: 200, data: {} } };
-    } else if (node.type === 'effect.email') {
-      this.log(`Email sent to: ${inputs.to}`);
-      return { result: { sent: true } };
-    } else if (node.type === 'effect.db') {
-      this.log(`DB Write: ${inputs.collection}`);
-      return { result: { written: true } };
-    }
-    return {};
-  }
-
-  /**
-   * Execute data node
-   */
-  private static executeData(node: WorkflowNode): Record<string, unknown> {
-    if (node.type === 'data.constant') {
-      return { value: node.data?.value };
-    } else if (node.type === 'data.variable') {
-      return { value: node.data?.variableName };
+    inputs: NodeInputs,
+    context: NodeExecutionContext,
+    executors: NodeExecutorRegistry
+  ): Promise<NodeOutputs> {
+    const executor = executors.resolve(node.type);
+    if (!executor) {
+      throw new Error(`No executor registered for node type: ${node.type}`);
     }
-    return {};
+
+    return await executor.execute(node, inputs, context);
   }
 
   /**
-   * Collect final outputs from terminal nodes
+   * Collect final outputs from terminal nodes, or from the last nodes of
+   * the slice in a partial run
    */
-  private collectOutputs(): Record<string, unknown> {
+  private collectOutputs(slice?: ReadonlySet<NodeId>): Record<string, unknown> {
     const outputs: Record<string, unknown> = {};
+    const inRun = (nodeId: NodeId) => !slice || slice.has(nodeId);
 
-    // Find terminal nodes (nodes with no outgoing edges)
+    // Find terminal nodes (nodes with no outgoing edges) that actually ran
     const terminalNodes = this.graph.nodes.filter((node) => {
-      return !this.graph.edges.some((e) => e.source === node.id);
+      return (
+        inRun(node.id) &&
+        !this.state.skippedNodes.has(node.id) &&
+        !this.graph.edges.some((e) => e.source === node.id && inRun(e.target))
+      );
     });
 
     for (const node of terminalNodes) {
@@ -297,7 +1235,96 @@ export class WorkflowExecutor {
   }
 
   private log(message: string): void {
-    this.state.logs.push(`[${new Date().toISOString()}] ${message}`);
+    this.state.logs.push(WorkflowExecutor.formatLogLine(message));
+    this.emit({ type: 'log', message });
+  }
+
+  /**
+   * Stamp an event with the run id and time, then deliver it to listeners
+   * and to plugins that handle events
+   */
+  private emit(input: ExecutionEventInput): void {
+    const event: ExecutionEvent = {
+      ...input,
+      runId: this.state.runId,
+      timestamp: Date.now(),
+    };
+    this.events.emit(event);
+
+    const pluginEvent = WorkflowExecutor.toPluginEvent(event);
+    for (const plugin of this.plugins.plugins.values()) {
+      if (!isPluginEventHandler(plugin)) {
+        continue;
+      }
+      try {
+        const handled = plugin.handleEvent(pluginEvent);
+        if (handled instanceof Promise) {
+          handled.catch((err) => {
+            console.error(
+              `Plugin ${plugin.metadata.id} failed to handle ${event.type}:`,
+              err
+            );
+          });
+        }
+      } catch (err) {
+        console.error(
+          `Plugin ${plugin.metadata.id} failed to handle ${event.type}:`,
+          err
+        );
+      }
+    }
+  }
+
+  private static toPluginEvent(event: ExecutionEvent): PluginEvent {
+    if (event.type === 'run-started') {
+      return {
+        type: 'execution-started',
+        workflowId: event.workflowId,
+        runId: event.runId,
+      };
+    }
+    if (event.type === 'run-finished') {
+      return {
+        type: 'execution-completed',
+        workflowId: event.workflowId,
+        runId: event.runId,
+        success: event.success,
+      };
+    }
+    return event;
+  }
+
+  private static formatLogLine(message: string): string {
+    return `[${new Date().toISOString()}] ${message}`;
+  }
+
+  // Cancellation and run timeouts stop the run whatever the error policy
+  private static interruptsRun(error: unknown): boolean {
+    return (
+      error instanceof NodeInterruptedError &&
+      !(error.error.type === 'timeout' && error.error.scope === 'node')
+    );
+  }
+
+  // `node.data.timeoutMs` overrides the run-wide default per node
+  private static nodeTimeout(
+    node: WorkflowNode,
+    context: ExecutionContext
+  ): number | undefined {
+    const timeoutMs = node.data?.timeoutMs;
+    return typeof timeoutMs === 'number' && timeoutMs > 0
+      ? timeoutMs
+      : context.nodeTimeoutMs;
+  }
+
+  private static concurrencyLimit(maxConcurrency: number | undefined): number {
+    const limit = maxConcurrency ?? 1;
+    if (limit !== Infinity && !(Number.isInteger(limit) && limit >= 1)) {
+      throw new Error(
+        `maxConcurrency must be a positive integer or Infinity, got ${limit}`
+      );
+    }
+    return limit;
   }
 
   private static makeKey(nodeId: NodeId, portId: string): string {
@@ -310,4 +1337,60 @@ export class WorkflowExecutor {
   getState(): ExecutionState {
     return this.state;
   }
+
+  /**
+   * Outputs of every node that ran or was restored, keyed by node id;
+   * untaken branch ports hold INACTIVE_BRANCH
+   */
+  getNodeOutputs(): Record<NodeId, NodeOutputs> {
+    const outputs: Record<NodeId, NodeOutputs> = {};
+    const ran = [...this.state.executedNodes, ...this.state.failedNodes];
+    for (const nodeId of ran) {
+      outputs[nodeId] = {};
+    }
+
+    const assign = (key: string, value: unknown) => {
+      const separator = key.lastIndexOf(':');
+      const nodeId = createNodeId(key.slice(0, separator));
+      const portId = key.slice(separator + 1);
+      if (nodeId in outputs) {
+        outputs[nodeId][portId] = value;
+      }
+    };
+    for (const [key, value] of this.state.nodeOutputs) {
+      assign(key, value);
+    }
+    for (const key of this.state.inactivePorts) {
+      assign(key, INACTIVE_BRANCH);
+    }
+
+    return outputs;
+  }
 }
+
+/**
+ * Exhaustiveness check for execution errors
+ */
+export const formatExecutionError = (error: ExecutionError): string => {
+  const errorType = error.type;
+
+  if (errorType === 'expression-syntax') {
+    return `Expression error in ${error.nodeId}.${error.field}: ${formatExpressionError(
+      error.source,
+      error
+    )}`;
+  } else if (errorType === 'invalid-retry-policy') {
+    return `Invalid retry policy on ${error.nodeId}: ${error.message}`;
+  } else if (errorType === 'timeout') {
+    return error.scope === 'node'
+      ? `Node ${error.nodeId} timed out after ${error.timeoutMs}ms`
+      : `Run timed out after ${error.timeoutMs}ms while executing ${error.nodeId}`;
+  } else if (errorType === 'aborted') {
+    return `Run aborted while executing ${error.nodeId}: ${error.reason}`;
+  } else if (errorType === 'budget-exceeded') {
+    return formatBudgetExceeded(error);
+  } else {
+    const _exhaustive: never = errorType;
+    return `Unknown error: ${_exhaustive}`;
+  }
+};
@@ -0,0 +1,972 @@
+/**
+ * Sandboxed Expression Language
+ * Demonstrates: Recursive Descent Parsing, Tree-walking Interpretation, Exhaustiveness Checks
+ *
+ * Transform nodes store their functions as arrow-function strings such as
+ * `x => x * 2` or `(acc, x) => acc + x`. These are parsed into an AST and
+ * interpreted here; nothing is ever handed to `eval` or `Function`.
+ */
+
+import type {
+  BinaryOperator,
+  CompiledExpression,
+  ExpressionCompileResult,
+  ExpressionNode,
+  ExpressionSyntaxError,
+  LogicalOperator,
+  UnaryOperator,
+} from '../types/expression';
+
+// --- Tokenizer ---
+
+type Token =
+  | { readonly type: 'number'; readonly value: number; readonly pos: number }
+  | { readonly type: 'string'; readonly value: string; readonly pos: number }
+  | {
+      readonly type: 'identifier';
+      readonly value: string;
+      readonly pos: number;
+    }
+  | {
+      readonly type: 'punctuator';
+      readonly value: string;
+      readonly pos: number;
+    }
+  | { readonly type: 'eof'; readonly pos: number };
+
+// Longest punctuators first so that `===` wins over `==`
+const PUNCTUATORS = [
+  '===',
+  '!==',
+  '=>',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '??',
+  '?.',
+  '(',
+  ')',
+  '[',
+  ']',
+  '{',
+  '}',
+  ',',
+  '.',
+  ':',
+  '?',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '<',
+  '>',
+  '!',
+] as const;
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  '0': '\0',
+};
+
+class SyntaxFailure extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'SyntaxFailure';
+    this.position = position;
+  }
+}
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    // Numbers (a leading dot is only a number when a digit follows)
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[pos + 1]))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(
+        source.slice(pos)
+      );
+      const text = match ? match[0] : char;
+      tokens.push({ type: 'number', value: Number(text), pos });
+      pos += text.length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = pos;
+      let value = '';
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\') {
+          const next = source[pos + 1];
+          if (next === undefined) break;
+          value += ESCAPES[next] ?? next;
+          pos += 2;
+        } else {
+          value += source[pos];
+          pos++;
+        }
+      }
+      if (pos >= source.length) {
+        throw new SyntaxFailure('Unterminated string literal', start);
+      }
+      pos++;
+      tokens.push({ type: 'string', value, pos: start });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(pos));
+      const text = match ? match[0] : char;
+      tokens.push({ type: 'identifier', value: text, pos });
+      pos += text.length;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((p) => source.startsWith(p, pos));
+    // `a?.5:1` is a conditional, not optional chaining
+    if (punctuator === '?.' && /[0-9]/.test(source[pos + 2] ?? '')) {
+      tokens.push({ type: 'punctuator', value: '?', pos });
+      pos++;
+      continue;
+    }
+    if (punctuator) {
+      tokens.push({ type: 'punctuator', value: punctuator, pos });
+      pos += punctuator.length;
+      continue;
+    }
+
+    throw new SyntaxFailure(`Unexpected character '${char}'`, pos);
+  }
+
+  tokens.push({ type: 'eof', pos });
+  return tokens;
+};
+
+// --- Parser (recursive descent, lowest precedence first) ---
+
+const KEYWORD_LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+const RESERVED = new Set([
+  ...Object.keys(KEYWORD_LITERALS),
+  'typeof',
+  'function',
+  'new',
+  'this',
+  'delete',
+  'void',
+]);
+
+// Nested parentheses, brackets and unary operators deeper than this are a
+// syntax error rather than a stack overflow in the recursive descent
+const MAX_NESTING_DEPTH = 256;
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  private depth = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parseProgram(): ExpressionNode {
+    const expression = this.parseExpression();
+    if (expression.kind !== 'arrow') {
+      throw new SyntaxFailure(
+        'Expected an arrow function such as `x => x`',
+        this.tokens[0].pos
+      );
+    }
+    this.expectEof();
+    return expression;
+  }
+
+  private parseExpression(): ExpressionNode {
+    return this.nested(() =>
+      this.isArrowAhead() ? this.parseArrow() : this.parseConditional()
+    );
+  }
+
+  private nested(parse: () => ExpressionNode): ExpressionNode {
+    if (this.depth >= MAX_NESTING_DEPTH) {
+      throw new SyntaxFailure(
+        'Expression is nested too deeply',
+        this.peek().pos
+      );
+    }
+    this.depth++;
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private parseArrow(): ExpressionNode {
+    const params: string[] = [];
+    if (this.matchPunctuator('(')) {
+      if (!this.matchPunctuator(')')) {
+        do {
+          params.push(this.expectParam());
+        } while (this.matchPunctuator(','));
+        this.expectPunctuator(')');
+      }
+    } else {
+      params.push(this.expectParam());
+    }
+    this.expectPunctuator('=>');
+
+    const duplicate = params.find((p, i) => params.indexOf(p) !== i);
+    if (duplicate) {
+      throw new SyntaxFailure(
+        `Duplicate parameter '${duplicate}'`,
+        this.peek().pos
+      );
+    }
+
+    return { kind: 'arrow', params, body: this.parseExpression() };
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseLogical(['||', '??'], () =>
+      this.parseLogical(['&&'], () => this.parseEquality())
+    );
+    if (!this.matchPunctuator('?')) {
+      return test;
+    }
+    const consequent = this.parseExpression();
+    this.expectPunctuator(':');
+    const alternate = this.parseExpression();
+    return { kind: 'conditional', test, consequent, alternate };
+  }
+
+  private parseLogical(
+    operators: ReadonlyArray<LogicalOperator>,
+    next: () => ExpressionNode
+  ): ExpressionNode {
+    let left = next();
+    let operator = this.matchAny(operators);
+    while (operator) {
+      left = { kind: 'logical', operator, left, right: next() };
+      operator = this.matchAny(operators);
+    }
+    return left;
+  }
+
+  private parseBinary(
+    operators: ReadonlyArray<BinaryOperator>,
+    next: () => ExpressionNode
+  ): ExpressionNode {
+    let left = next();
+    let operator = this.matchAny(operators);
+    while (operator) {
+      left = { kind: 'binary', operator, left, right: next() };
+      operator = this.matchAny(operators);
+    }
+    return left;
+  }
+
+  private parseEquality(): ExpressionNode {
+    return this.parseBinary(['===', '!==', '==', '!='], () =>
+      this.parseBinary(['<=', '>=', '<', '>'], () =>
+        this.parseBinary(['+', '-'], () =>
+          this.parseBinary(['*', '/', '%'], () => this.parseUnary())
+        )
+      )
+    );
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    let operator: UnaryOperator | undefined = this.matchAny([
+      '!',
+      '-',
+      '+',
+    ] as const);
+    if (!operator && token.type === 'identifier' && token.value === 'typeof') {
+      this.index++;
+      operator = 'typeof';
+    }
+    if (operator) {
+      return {
+        kind: 'unary',
+        operator,
+        argument: this.nested(() => this.parseUnary()),
+      };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.matchPunctuator('.')) {
+        node = this.memberAccess(node, false);
+      } else if (this.matchPunctuator('?.')) {
+        if (this.matchPunctuator('(')) {
+          node = {
+            kind: 'call',
+            callee: node,
+            args: this.parseArgs(),
+            optional: true,
+          };
+        } else if (this.matchPunctuator('[')) {
+          node = this.computedAccess(node, true);
+        } else {
+          node = this.memberAccess(node, true);
+        }
+      } else if (this.matchPunctuator('[')) {
+        node = this.computedAccess(node, false);
+      } else if (this.matchPunctuator('(')) {
+        node = {
+          kind: 'call',
+          callee: node,
+          args: this.parseArgs(),
+          optional: false,
+        };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private memberAccess(
+    object: ExpressionNode,
+    optional: boolean
+  ): ExpressionNode {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      throw new SyntaxFailure('Expected property name', token.pos);
+    }
+    this.index++;
+    return {
+      kind: 'member',
+      object,
+      property: { kind: 'literal', value: token.value },
+      computed: false,
+      optional,
+    };
+  }
+
+  private computedAccess(
+    object: ExpressionNode,
+    optional: boolean
+  ): ExpressionNode {
+    const property = this.parseExpression();
+    this.expectPunctuator(']');
+    return { kind: 'member', object, property, computed: true, optional };
+  }
+
+  private parseArgs(): ExpressionNode[] {
+    const args: ExpressionNode[] = [];
+    if (this.matchPunctuator(')')) {
+      return args;
+    }
+    do {
+      args.push(this.parseExpression());
+    } while (this.matchPunctuator(','));
+    this.expectPunctuator(')');
+    return args;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    if (token.type === 'number' || token.type === 'string') {
+      this.index++;
+      return { kind: 'literal', value: token.value };
+    }
+
+    if (token.type === 'identifier') {
+      this.index++;
+      if (token.value in KEYWORD_LITERALS) {
+        return { kind: 'literal', value: KEYWORD_LITERALS[token.value] };
+      }
+      if (RESERVED.has(token.value)) {
+        throw new SyntaxFailure(
+          `Unsupported keyword '${token.value}'`,
+          token.pos
+        );
+      }
+      return { kind: 'identifier', name: token.value };
+    }
+
+    if (this.matchPunctuator('(')) {
+      const expression = this.parseExpression();
+      this.expectPunctuator(')');
+      return expression;
+    }
+
+    if (this.matchPunctuator('[')) {
+      const elements: ExpressionNode[] = [];
+      if (!this.matchPunctuator(']')) {
+        do {
+          elements.push(this.parseExpression());
+        } while (this.matchPunctuator(','));
+        this.expectPunctuator(']');
+      }
+      return { kind: 'array', elements };
+    }
+
+    if (this.matchPunctuator('{')) {
+      return this.parseObject();
+    }
+
+    throw new SyntaxFailure(
+      token.type === 'eof'
+        ? 'Unexpected end of expression'
+        : 'Unexpected token',
+      token.pos
+    );
+  }
+
+  private parseObject(): ExpressionNode {
+    const properties: Array<{ key: string; value: ExpressionNode }> = [];
+    if (this.matchPunctuator('}')) {
+      return { kind: 'object', properties };
+    }
+    do {
+      const token = this.peek();
+      if (token.type !== 'identifier' && token.type !== 'string') {
+        throw new SyntaxFailure('Expected property key', token.pos);
+      }
+      this.index++;
+      const key = token.value;
+      if (this.matchPunctuator(':')) {
+        properties.push({ key, value: this.parseExpression() });
+      } else if (token.type === 'identifier') {
+        // Shorthand `{ x }`
+        properties.push({ key, value: { kind: 'identifier', name: key } });
+      } else {
+        throw new SyntaxFailure("Expected ':'", this.peek().pos);
+      }
+    } while (this.matchPunctuator(','));
+    this.expectPunctuator('}');
+    return { kind: 'object', properties };
+  }
+
+  // `x =>` or `(a, b) =>`: scan to the matching paren without consuming
+  private isArrowAhead(): boolean {
+    const token = this.peek();
+    if (token.type === 'identifier') {
+      const next = this.tokens[this.index + 1];
+      return next.type === 'punctuator' && next.value === '=>';
+    }
+    if (token.type !== 'punctuator' || token.value !== '(') {
+      return false;
+    }
+    let depth = 0;
+    for (let i = this.index; i < this.tokens.length; i++) {
+      const t = this.tokens[i];
+      if (t.type !== 'punctuator') continue;
+      if (t.value === '(') depth++;
+      if (t.value === ')') depth--;
+      if (depth === 0) {
+        const next = this.tokens[i + 1];
+        return next?.type === 'punctuator' && next.value === '=>';
+      }
+    }
+    return false;
+  }
+
+  private expectParam(): string {
+    const token = this.peek();
+    if (token.type !== 'identifier' || RESERVED.has(token.value)) {
+      throw new SyntaxFailure('Expected parameter name', token.pos);
+    }
+    this.index++;
+    return token.value;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private matchPunctuator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuator' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchAny<T extends string>(values: ReadonlyArray<T>): T | undefined {
+    const token = this.peek();
+    if (token.type !== 'punctuator') return undefined;
+    const found = values.find((v) => v === token.value);
+    if (found) this.index++;
+    return found;
+  }
+
+  private expectPunctuator(value: string): void {
+    if (!this.matchPunctuator(value)) {
+      throw new SyntaxFailure(`Expected '${value}'`, this.peek().pos);
+    }
+  }
+
+  private expectEof(): void {
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new SyntaxFailure('Unexpected token after expression', token.pos);
+    }
+  }
+}
+
+// --- Interpreter ---
+
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const STRING_METHODS = new Set([
+  'at',
+  'charAt',
+  'concat',
+  'endsWith',
+  'includes',
+  'indexOf',
+  'lastIndexOf',
+  'padEnd',
+  'padStart',
+  'repeat',
+  'replace',
+  'replaceAll',
+  'slice',
+  'split',
+  'startsWith',
+  'substring',
+  'toLowerCase',
+  'toUpperCase',
+  'trim',
+  'trimEnd',
+  'trimStart',
+]);
+
+// Non-mutating array methods only
+const ARRAY_METHODS = new Set([
+  'at',
+  'concat',
+  'every',
+  'filter',
+  'find',
+  'findIndex',
+  'flat',
+  'flatMap',
+  'includes',
+  'indexOf',
+  'join',
+  'lastIndexOf',
+  'map',
+  'reduce',
+  'slice',
+  'some',
+]);
+
+const NUMBER_METHODS = new Set(['toFixed', 'toPrecision', 'toString']);
+
+const namespace = (entries: Record<string, unknown>) =>
+  Object.freeze(Object.assign(Object.create(null), entries)) as Readonly<
+    Record<string, unknown>
+  >;
+
+const GLOBALS: ReadonlyMap<string, unknown> = new Map<string, unknown>([
+  [
+    'Math',
+    namespace({
+      abs: Math.abs,
+      ceil: Math.ceil,
+      floor: Math.floor,
+      round: Math.round,
+      trunc: Math.trunc,
+      sign: Math.sign,
+      min: Math.min,
+      max: Math.max,
+      pow: Math.pow,
+      sqrt: Math.sqrt,
+      PI: Math.PI,
+    }),
+  ],
+  [
+    'Object',
+    namespace({
+      keys: Object.keys,
+      values: Object.values,
+      entries: Object.entries,
+    }),
+  ],
+  ['Array', namespace({ isArray: Array.isArray })],
+  ['JSON', namespace({ stringify: JSON.stringify, parse: JSON.parse })],
+  ['String', (value: unknown) => String(value)],
+  ['Number', (value: unknown) => Number(value)],
+  ['Boolean', (value: unknown) => Boolean(value)],
+  ['parseInt', (value: unknown) => parseInt(String(value), 10)],
+  ['parseFloat', (value: unknown) => parseFloat(String(value))],
+  ['isNaN', (value: unknown) => Number.isNaN(Number(value))],
+  ['NaN', NaN],
+  ['Infinity', Infinity],
+]);
+
+const NAMESPACES = new Set<unknown>(
+  Array.from(GLOBALS.values()).filter(
+    (v) => typeof v === 'object' && v !== null
+  )
+);
+
+// Every function the sandbox may call: globals, namespace members, lambdas
+const callable = new WeakSet<object>();
+for (const value of GLOBALS.values()) {
+  if (typeof value === 'function') callable.add(value);
+}
+for (const ns of NAMESPACES) {
+  for (const value of Object.values(ns as object)) {
+    if (typeof value === 'function') callable.add(value);
+  }
+}
+
+const MAX_CALL_DEPTH = 256;
+
+// Marks a short-circuited optional chain until the chain ends
+const SHORT_CIRCUIT = Symbol('short-circuit');
+
+type Scope = ReadonlyMap<string, unknown>;
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : typeof value;
+
+const readProperty = (object: unknown, key: unknown): unknown => {
+  if (object === null || object === undefined) {
+    throw new Error(
+      `Cannot read property '${String(key)}' of ${describe(object)}`
+    );
+  }
+  const name = String(key);
+  if (FORBIDDEN_PROPERTIES.has(name)) {
+    throw new Error(`Access to '${name}' is not allowed`);
+  }
+  if (typeof object === 'string' || Array.isArray(object)) {
+    if (name === 'length') return object.length;
+    return /^\d+$/.test(name) ? object[Number(name)] : undefined;
+  }
+  if (typeof object === 'object' && Object.hasOwn(object, name)) {
+    return (object as Record<string, unknown>)[name];
+  }
+  return undefined;
+};
+
+// Look methods up on the prototype so own properties cannot shadow them
+const resolveMethod = (receiver: unknown, name: string): unknown => {
+  if (typeof receiver === 'string' && STRING_METHODS.has(name)) {
+    return String.prototype[name as keyof string];
+  }
+  if (Array.isArray(receiver) && ARRAY_METHODS.has(name)) {
+    return Array.prototype[name as keyof unknown[]];
+  }
+  if (typeof receiver === 'number' && NUMBER_METHODS.has(name)) {
+    return Number.prototype[name as keyof number];
+  }
+  return undefined;
+};
+
+const applyBinary = (
+  operator: BinaryOperator,
+  left: unknown,
+  right: unknown
+): unknown => {
+  switch (operator) {
+    case '+':
+      return typeof left === 'string' || typeof right === 'string'
+        ? String(left) + String(right)
+        : Number(left) + Number(right);
+    case '-':
+      return Number(left) - Number(right);
+    case '*':
+      return Number(left) * Number(right);
+    case '/':
+      return Number(left) / Number(right);
+    case '%':
+      return Number(left) % Number(right);
+    case '===':
+      return left === right;
+    case '!==':
+      return left !== right;
+    case '==':
+      return left == right;
+    case '!=':
+      return left != right;
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      const bothStrings = typeof left === 'string' && typeof right === 'string';
+      const a = bothStrings ? left : Number(left);
+      const b = bothStrings ? right : Number(right);
+      if (operator === '<') return a < b;
+      if (operator === '<=') return a <= b;
+      if (operator === '>') return a > b;
+      return a >= b;
+    }
+    default: {
+      const _exhaustive: never = operator;
+      throw new Error(`Unknown operator: ${_exhaustive}`);
+    }
+  }
+};
+
+class Interpreter {
+  private depth = 0;
+
+  evaluate(node: ExpressionNode, scope: Scope): unknown {
+    const value = this.evaluateNode(node, scope);
+    return value === SHORT_CIRCUIT ? undefined : value;
+  }
+
+  // Chain links propagate SHORT_CIRCUIT instead of collapsing it
+  private evaluateLink(node: ExpressionNode, scope: Scope): unknown {
+    return node.kind === 'member' || node.kind === 'call'
+      ? this.evaluateNode(node, scope)
+      : this.evaluate(node, scope);
+  }
+
+  private evaluateNode(node: ExpressionNode, scope: Scope): unknown {
+    const kind = node.kind;
+
+    if (kind === 'literal') {
+      return node.value;
+    } else if (kind === 'identifier') {
+      if (scope.has(node.name)) return scope.get(node.name);
+      if (GLOBALS.has(node.name)) return GLOBALS.get(node.name);
+      throw new Error(`Unknown identifier: ${node.name}`);
+    } else if (kind === 'array') {
+      return node.elements.map((e) => this.evaluate(e, scope));
+    } else if (kind === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const { key, value } of node.properties) {
+        if (FORBIDDEN_PROPERTIES.has(key)) {
+          throw new Error(`Property '${key}' is not allowed`);
+        }
+        result[key] = this.evaluate(value, scope);
+      }
+      return result;
+    } else if (kind === 'member') {
+      const object = this.evaluateLink(node.object, scope);
+      if (object === SHORT_CIRCUIT) return SHORT_CIRCUIT;
+      if (node.optional && (object === null || object === undefined)) {
+        return SHORT_CIRCUIT;
+      }
+      const key = this.evaluate(node.property, scope);
+      if (NAMESPACES.has(object)) {
+        return Object.hasOwn(object as object, String(key))
+          ? (object as Record<string, unknown>)[String(key)]
+          : undefined;
+      }
+      return readProperty(object, key);
+    } else if (kind === 'call') {
+      return this.evaluateCall(node, scope);
+    } else if (kind === 'unary') {
+      const argument = this.evaluate(node.argument, scope);
+      if (node.operator === '!') return !argument;
+      if (node.operator === '-') return -Number(argument);
+      if (node.operator === '+') return Number(argument);
+      return typeof argument;
+    } else if (kind === 'binary') {
+      return applyBinary(
+        node.operator,
+        this.evaluate(node.left, scope),
+        this.evaluate(node.right, scope)
+      );
+    } else if (kind === 'logical') {
+      const left = this.evaluate(node.left, scope);
+      if (node.operator === '&&') {
+        return left ? this.evaluate(node.right, scope) : left;
+      } else if (node.operator === '||') {
+        return left ? left : this.evaluate(node.right, scope);
+      }
+      return left ?? this.evaluate(node.right, scope);
+    } else if (kind === 'conditional') {
+      return this.evaluate(node.test, scope)
+        ? this.evaluate(node.consequent, scope)
+        : this.evaluate(node.alternate, scope);
+    } else if (kind === 'arrow') {
+      return this.createLambda(node.params, node.body, scope);
+    } else {
+      const _exhaustive: never = kind;
+      throw new Error(`Unknown expression kind: ${_exhaustive}`);
+    }
+  }
+
+  private evaluateCall(
+    node: Extract<ExpressionNode, { kind: 'call' }>,
+    scope: Scope
+  ): unknown {
+    let receiver: unknown;
+    let fn: unknown;
+
+    if (node.callee.kind === 'member') {
+      receiver = this.evaluateLink(node.callee.object, scope);
+      if (receiver === SHORT_CIRCUIT) return SHORT_CIRCUIT;
+      if (
+        node.callee.optional &&
+        (receiver === null || receiver === undefined)
+      ) {
+        return SHORT_CIRCUIT;
+      }
+      const name = String(this.evaluate(node.callee.property, scope));
+
+      if (NAMESPACES.has(receiver)) {
+        fn = Object.hasOwn(receiver as object, name)
+          ? (receiver as Record<string, unknown>)[name]
+          : undefined;
+        receiver = undefined;
+      } else {
+        fn = resolveMethod(receiver, name);
+      }
+      if (fn === undefined && receiver !== undefined) {
+        throw new Error(
+          `Method '${name}' is not available on ${describe(receiver)}`
+        );
+      }
+    } else {
+      fn = this.evaluateLink(node.callee, scope);
+      if (fn === SHORT_CIRCUIT) return SHORT_CIRCUIT;
+    }
+
+    if (node.optional && (fn === null || fn === undefined)) {
+      return SHORT_CIRCUIT;
+    }
+    if (typeof fn !== 'function') {
+      throw new Error('Expression is not callable');
+    }
+    // Built-in methods were vetted by name above; bare functions must be ours
+    if (receiver === undefined && !callable.has(fn)) {
+      throw new Error('Calling this function is not allowed');
+    }
+
+    const args = node.args.map((a) => this.evaluate(a, scope));
+    return Reflect.apply(fn, receiver, args);
+  }
+
+  createLambda(
+    params: ReadonlyArray<string>,
+    body: ExpressionNode,
+    scope: Scope
+  ): (...args: ReadonlyArray<unknown>) => unknown {
+    const lambda = (...args: ReadonlyArray<unknown>): unknown => {
+      if (this.depth >= MAX_CALL_DEPTH) {
+        throw new Error('Maximum expression call depth exceeded');
+      }
+      const inner = new Map(scope);
+      params.forEach((param, i) => inner.set(param, args[i]));
+      this.depth++;
+      try {
+        return this.evaluate(body, inner);
+      } finally {
+        this.depth--;
+      }
+    };
+    callable.add(lambda);
+    return lambda;
+  }
+}
+
+// --- Public API ---
+
+/**
+ * Parse an arrow-function expression without evaluating it
+ */
+export const compileExpression = (source: string): ExpressionCompileResult => {
+  try {
+    const ast = new Parser(tokenize(source)).parseProgram();
+    if (ast.kind !== 'arrow') {
+      throw new SyntaxFailure('Expected an arrow function', 0);
+    }
+    const apply = new Interpreter().createLambda(
+      ast.params,
+      ast.body,
+      new Map()
+    );
+    const expression: CompiledExpression = {
+      source,
+      params: ast.params,
+      ast,
+      apply,
+    };
+    return { success: true, expression };
+  } catch (error) {
+    if (error instanceof SyntaxFailure) {
+      return {
+        success: false,
+        error: { message: error.message, position: error.position },
+      };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Format a syntax error with a caret under the offending position
+ */
+export const formatExpressionError = (
+  source: string,
+  error: ExpressionSyntaxError
+): string =>
+  `${error.message} at position ${error.position}\n  ${source}\n  ${' '.repeat(
+    error.position
+  )}^`;
+
+/**
+ * Per-run cache so each distinct expression is compiled exactly once
+ */
+export class ExpressionCache {
+  private compiled: Map<string, ExpressionCompileResult>;
+
+  constructor() {
+    this.compiled = new Map();
+  }
+
+  compile(source: string): ExpressionCompileResult {
+    let result = this.compiled.get(source);
+    if (!result) {
+      result = compileExpression(source);
+      this.compiled.set(source, result);
+    }
+    return result;
+  }
+
+  /**
+   * Get an expression that is known to compile (e.g. after a prepare pass)
+   */
+  get(source: string): CompiledExpression {
+    const result = this.compile(source);
+    if (!result.success) {
+      throw new Error(
+        `Invalid expression: ${formatExpressionError(source, result.error)}`
+      );
+    }
+    return result.expression;
+  }
+
+  get size(): number {
+    return this.compiled.size;
+  }
+}
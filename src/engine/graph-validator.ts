@@ -9,22 +9,43 @@ import type {
   Edge,
   NodeId,
   EdgeId,
+  PortType,
+  WorkflowId,
 } from '../types/core';
 import type {
   GraphValidationState,
   CycleDetectionResult,
   TopologicalSort,
   GraphValidationError,
+  GraphValidationWarning,
+  WorkflowRepository,
 } from '../types/graph';
-import { checkPortCompatibility } from '../types/compatibility';
+import { checkPortCompatibility, getCoercion } from '../types/compatibility';
+import { baseKind, formatPortType } from '../types/port-types';
+import {
+  ERROR_PORT,
+  compareOperators,
+  getErrorPolicy,
+  getForEachBody,
+  getForEachItemNode,
+  getSubworkflowId,
+  isCompareOperator,
+  isErrorPolicy,
+  type ErrorPolicy,
+} from '../types/nodes';
 
 export class GraphValidator {
   private nodes: Map<NodeId, WorkflowNode>;
   private edges: Map<EdgeId, Edge>;
   private adjacencyList: Map<NodeId, NodeId[]>;
   private reverseAdjacencyList: Map<NodeId, NodeId[]>;
+  private graph: WorkflowGraph;
+  // Resolves subworkflow references; without it they are not checked
+  private workflows: WorkflowRepository | undefined;
 
-  constructor(private graph: WorkflowGraph) {
+  constructor(graph: WorkflowGraph, workflows?: WorkflowRepository) {
+    this.graph = graph;
+    this.workflows = workflows;
     this.nodes = new Map(graph.nodes.map((n) => [n.id, n]));
     this.edges = new Map(graph.edges.map((e) => [e.id as EdgeId, e]));
     this.adjacencyList = this.buildAdjacencyList();
@@ -34,7 +55,11 @@ export class GraphValidator {
   /**
    * Validate entire graph
    */
-  validate(): { valid: boolean; errors: GraphValidationError[] } {
+  validate(): {
+    valid: boolean;
+    errors: GraphValidationError[];
+    warnings: GraphValidationWarning[];
+  } {
     const errors: GraphValidationError[] = [];
 
     // Check for duplicate IDs
@@ -58,12 +83,25 @@ export class GraphValidator {
     // Check connection validity
     errors.push(...this.checkConnectionValidity());
 
+    // Check compare operators against their operand types
+    errors.push(...this.checkCompareOperands());
+
+    // Check error policies against error port connections
+    errors.push(...this.checkErrorPolicies());
+
+    // Check graphs embedded in container nodes
+    errors.push(...this.checkSubgraphs());
+
+    // Check subworkflow references and recursion across workflows
+    errors.push(...this.checkSubworkflows());
+
     // Check for orphan nodes
     errors.push(...this.checkOrphanNodes());
 
     return {
       valid: errors.length === 0,
       errors,
+      warnings: this.checkLossyCoercions(),
     };
   }
 
@@ -168,7 +206,41 @@ export class GraphValidator {
   }
 
   /**
-   * Check if all required inputs are satisfied
+   * The node and every node it depends on
+   */
+  upstreamOf(nodeId: NodeId): Set<NodeId> {
+    return GraphValidator.reachable(nodeId, this.reverseAdjacencyList);
+  }
+
+  /**
+   * The node and every node that depends on it
+   */
+  downstreamOf(nodeId: NodeId): Set<NodeId> {
+    return GraphValidator.reachable(nodeId, this.adjacencyList);
+  }
+
+  private static reachable(
+    start: NodeId,
+    adjacency: ReadonlyMap<NodeId, ReadonlyArray<NodeId>>
+  ): Set<NodeId> {
+    const reached = new Set<NodeId>([start]);
+    const stack = [start];
+    while (stack.length > 0) {
+      const nodeId = stack.pop();
+      if (nodeId === undefined) break;
+      for (const next of adjacency.get(nodeId) ?? []) {
+        if (!reached.has(next)) {
+          reached.add(next);
+          stack.push(next);
+        }
+      }
+    }
+    return reached;
+  }
+
+  /**
+   * Check if all required inputs are satisfied. An input fed by a node that
+   * continues on error may receive nothing, so it does not count.
    */
   checkInputSatisfaction(): GraphValidationError[] {
     const errors: GraphValidationError[] = [];
@@ -176,15 +248,25 @@ export class GraphValidator {
     for (const node of this.nodes.values()) {
       for (const input of node.inputs) {
         if (input.required) {
-          const isConnected = Array.from(this.edges.values()).some(
+          const edge = Array.from(this.edges.values()).find(
             (edge) => edge.target === node.id && edge.targetPort === input.id
           );
 
-          if (!isConnected) {
+          if (!edge) {
+            errors.push({
+              type: 'unsatisfied-input',
+              nodeId: node.id,
+              portId: input.id,
+            });
+          } else if (
+            edge.sourcePort !== ERROR_PORT &&
+            this.getErrorPolicy(edge.source) === 'continue'
+          ) {
             errors.push({
               type: 'unsatisfied-input',
               nodeId: node.id,
               portId: input.id,
+              reason: `${edge.source} continues on error and may leave it empty`,
             });
           }
         }
@@ -194,6 +276,181 @@ export class GraphValidator {
     return errors;
   }
 
+  /**
+   * Check that error policies are known and that `route` has somewhere to go
+   */
+  checkErrorPolicies(): GraphValidationError[] {
+    const errors: GraphValidationError[] = [];
+
+    for (const node of this.nodes.values()) {
+      const policy = node.data?.onError;
+      if (policy !== undefined && !isErrorPolicy(policy)) {
+        errors.push({
+          type: 'invalid-error-policy',
+          nodeId: node.id,
+          reason: `Unknown error policy '${String(policy)}'`,
+        });
+      } else if (policy === 'route' && !this.isErrorPortConnected(node.id)) {
+        errors.push({
+          type: 'invalid-error-policy',
+          nodeId: node.id,
+          reason: `Policy 'route' needs a connected '${ERROR_PORT}' port`,
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate the body graph of each ForEach node in isolation
+   */
+  checkSubgraphs(): GraphValidationError[] {
+    const errors: GraphValidationError[] = [];
+
+    for (const node of this.nodes.values()) {
+      if (node.type !== 'logic.forEach') {
+        continue;
+      }
+
+      const body = getForEachBody(node);
+      if (!body) {
+        errors.push({
+          type: 'invalid-subgraph',
+          nodeId: node.id,
+          reason: 'Missing body graph',
+        });
+        continue;
+      }
+
+      if (!getForEachItemNode(body.graph)) {
+        errors.push({
+          type: 'invalid-subgraph',
+          nodeId: node.id,
+          reason: 'Body needs a manual trigger to receive each item',
+        });
+      }
+
+      const result = body.result;
+      if (result && !body.graph.nodes.some((n) => n.id === result.nodeId)) {
+        errors.push({
+          type: 'invalid-subgraph',
+          nodeId: node.id,
+          reason: `Result node not found in body: ${result.nodeId}`,
+        });
+      }
+
+      // Recursion through bodies is reported by checkSubworkflows
+      const inner = new GraphValidator(body.graph, this.workflows).validate();
+      for (const error of inner.errors) {
+        if (error.type === 'workflow-cycle') {
+          continue;
+        }
+        errors.push({
+          type: 'invalid-subgraph',
+          nodeId: node.id,
+          reason: formatValidationError(error),
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check that subworkflow nodes reference saved workflows and that no
+   * workflow ends up running itself
+   */
+  checkSubworkflows(): GraphValidationError[] {
+    const errors: GraphValidationError[] = [];
+
+    for (const node of GraphValidator.subworkflowNodes(this.graph)) {
+      const workflowId = getSubworkflowId(node);
+      if (!workflowId) {
+        errors.push({
+          type: 'invalid-subgraph',
+          nodeId: node.id,
+          reason: 'No workflow selected',
+        });
+        continue;
+      }
+      if (!this.workflows) {
+        continue;
+      }
+      if (!this.workflows.get(workflowId)) {
+        errors.push({
+          type: 'invalid-subgraph',
+          nodeId: node.id,
+          reason: `Workflow not found: ${workflowId}`,
+        });
+        continue;
+      }
+
+      const cycle = this.findWorkflowCycle(workflowId, [this.graph.id]);
+      if (cycle) {
+        errors.push({
+          type: 'workflow-cycle',
+          nodeId: node.id,
+          workflows: cycle,
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Follow subworkflow references depth-first; returns the first path that
+   * revisits a workflow on it
+   */
+  private findWorkflowCycle(
+    workflowId: WorkflowId,
+    path: ReadonlyArray<WorkflowId>
+  ): WorkflowId[] | null {
+    const start = path.indexOf(workflowId);
+    if (start !== -1) {
+      return [...path.slice(start), workflowId];
+    }
+
+    const workflow = this.workflows?.get(workflowId);
+    if (!workflow) {
+      return null;
+    }
+
+    for (const node of GraphValidator.subworkflowNodes(workflow)) {
+      const next = getSubworkflowId(node);
+      const cycle = next && this.findWorkflowCycle(next, [...path, workflowId]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  }
+
+  // Subworkflow nodes of a graph, including those inside ForEach bodies
+  private static subworkflowNodes(graph: WorkflowGraph): WorkflowNode[] {
+    return graph.nodes.flatMap((node) => {
+      if (node.type === 'flow.subworkflow') {
+        return [node];
+      }
+      const body = node.type === 'logic.forEach' && getForEachBody(node);
+      return body ? GraphValidator.subworkflowNodes(body.graph) : [];
+    });
+  }
+
+  private isErrorPortConnected(nodeId: NodeId): boolean {
+    return Array.from(this.edges.values()).some(
+      (edge) => edge.source === nodeId && edge.sourcePort === ERROR_PORT
+    );
+  }
+
+  private getErrorPolicy(nodeId: NodeId): ErrorPolicy | undefined {
+    const node = this.nodes.get(nodeId);
+    return node
+      ? getErrorPolicy(node, this.isErrorPortConnected(nodeId))
+      : undefined;
+  }
+
   /**
    * Check connection validity (type compatibility)
    */
@@ -228,12 +485,20 @@ export class GraphValidator {
         sourcePort.portType,
         targetPort.portType
       );
+      if (compatibility.valid) {
+        continue;
+      }
 
-      if (!compatibility.valid) {
+      // Safe and lossy coercions convert on the edge
+      const coercion = getCoercion(sourcePort.portType, targetPort.portType);
+      if (coercion?.level === 'forbidden') {
+        const reason = compatibility.errorMessage || 'Type mismatch';
         errors.push({
           type: 'invalid-connection',
           edgeId: edge.id as EdgeId,
-          reason: compatibility.errorMessage || 'Type mismatch',
+          reason: coercion.converter
+            ? `${reason} (insert a ${coercion.converter} converter)`
+            : reason,
         });
       }
     }
@@ -241,6 +506,115 @@ export class GraphValidator {
     return errors;
   }
 
+  /**
+   * Warn on edges whose coercion may lose information, e.g. text parsed as
+   * a number
+   */
+  checkLossyCoercions(): GraphValidationWarning[] {
+    const warnings: GraphValidationWarning[] = [];
+
+    for (const edge of this.edges.values()) {
+      const sourcePort = this.nodes
+        .get(edge.source)
+        ?.outputs.find((p) => p.id === edge.sourcePort);
+      const targetPort = this.nodes
+        .get(edge.target)
+        ?.inputs.find((p) => p.id === edge.targetPort);
+
+      if (!sourcePort || !targetPort) {
+        continue; // Will be caught by checkConnectionValidity
+      }
+
+      const coercion = getCoercion(sourcePort.portType, targetPort.portType);
+      if (coercion?.level === 'lossy') {
+        warnings.push({
+          type: 'lossy-coercion',
+          edgeId: edge.id as EdgeId,
+          converter: coercion.converter,
+          reason: `${formatPortType(sourcePort.portType)} is converted to ${formatPortType(targetPort.portType)} by ${coercion.converter}, which may lose information or fail`,
+        });
+      }
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Check that compare nodes receive operand kinds their operator accepts
+   */
+  checkCompareOperands(): GraphValidationError[] {
+    const errors: GraphValidationError[] = [];
+
+    for (const node of this.nodes.values()) {
+      if (node.type !== 'logic.compare') {
+        continue;
+      }
+
+      const operator = node.data?.operator ?? '===';
+      if (!isCompareOperator(operator)) {
+        errors.push({
+          type: 'incompatible-operands',
+          nodeId: node.id,
+          operator: String(operator),
+          reason: 'Unknown operator',
+        });
+        continue;
+      }
+
+      const spec = compareOperators[operator];
+      const kinds: Partial<Record<'a' | 'b', string>> = {};
+
+      for (const operand of ['a', 'b'] as const) {
+        const sourceType = this.getSourcePortType(node.id, operand);
+        const kind = sourceType && baseKind(sourceType);
+        // Unknown, mixed or `any` sources can only be checked at runtime
+        if (!kind || kind === 'any') {
+          continue;
+        }
+        const allowed: ReadonlyArray<string> = spec[operand];
+        if (allowed.includes('any') || allowed.includes(kind)) {
+          kinds[operand] = kind;
+        } else {
+          errors.push({
+            type: 'incompatible-operands',
+            nodeId: node.id,
+            operator,
+            reason: `Operand ${operand} is ${kind}, expected ${allowed.join(' or ')}`,
+          });
+        }
+      }
+
+      if ('sameKind' in spec && kinds.a && kinds.b && kinds.a !== kinds.b) {
+        errors.push({
+          type: 'incompatible-operands',
+          nodeId: node.id,
+          operator,
+          reason: `Operands must share a kind, got ${kinds.a} and ${kinds.b}`,
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Resolve the port type feeding an input port, if connected
+   */
+  private getSourcePortType(
+    nodeId: NodeId,
+    portId: string
+  ): PortType | undefined {
+    const edge = Array.from(this.edges.values()).find(
+      (e) => e.target === nodeId && e.targetPort === portId
+    );
+    if (!edge) {
+      return undefined;
+    }
+    return this.nodes
+      .get(edge.source)
+      ?.outputs.find((p) => p.id === edge.sourcePort)?.portType;
+  }
+
   /**
    * Check for orphan nodes (no connections)
    */
@@ -397,7 +771,9 @@ export const formatValidationError = (error: GraphValidationError): string => {
   if (errorType === 'cycle') {
     return `Cycle detected: ${error.nodes.join(' -> ')}`;
   } else if (errorType === 'unsatisfied-input') {
-    return `Unsatisfied input: ${error.nodeId}:${error.portId}`;
+    return `Unsatisfied input: ${error.nodeId}:${error.portId}${
+      error.reason ? ` (${error.reason})` : ''
+    }`;
   } else if (errorType === 'invalid-connection') {
     return `Invalid connection ${error.edgeId}: ${error.reason}`;
   } else if (errorType === 'orphan-node') {
@@ -408,6 +784,14 @@ export const formatValidationError = (error: GraphValidationError): string => {
     return `Duplicate edge ID: ${error.edgeId}`;
   } else if (errorType === 'missing-node') {
     return `Missing node ${error.nodeId} referenced by ${error.referencedBy}`;
+  } else if (errorType === 'incompatible-operands') {
+    return `Incompatible operands for '${error.operator}' on ${error.nodeId}: ${error.reason}`;
+  } else if (errorType === 'invalid-error-policy') {
+    return `Invalid error policy on ${error.nodeId}: ${error.reason}`;
+  } else if (errorType === 'invalid-subgraph') {
+    return `Invalid subgraph in ${error.nodeId}: ${error.reason}`;
+  } else if (errorType === 'workflow-cycle') {
+    return `Workflow recursion via ${error.nodeId}: ${error.workflows.join(' -> ')}`;
   } else {
     const _exhaustive: never = errorType;
     return `Unknown error: ${_exhaustive}`;
@@ -0,0 +1,258 @@
+/**
+ * Execution Journal Stores
+ * Demonstrates: Strategy Pattern, Adapter Pattern, Async Persistence
+ */
+
+import type { RunId } from '../types/core';
+import { createRunId } from '../types/core';
+import { INACTIVE_BRANCH } from '../types/execution';
+import type { JournalEntry, JournalStore } from '../types/journal';
+
+// Stand-ins for the values JSON cannot hold but node outputs may
+const MARKER_KEY = '__journal';
+const markers = {
+  'inactive-branch': INACTIVE_BRANCH,
+  undefined: undefined,
+} as const;
+type MarkerName = keyof typeof markers;
+
+const isPlainObject = (value: object): boolean => {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+const encodeValue = (value: unknown, path: string): unknown => {
+  if (value === INACTIVE_BRANCH) {
+    return { [MARKER_KEY]: 'inactive-branch' };
+  }
+  if (value === undefined) {
+    return { [MARKER_KEY]: 'undefined' };
+  }
+  if (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'boolean'
+  ) {
+    return value;
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot journal ${path}: ${value} is not a JSON number`);
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => encodeValue(item, `${path}[${i}]`));
+  }
+  if (typeof value === 'object' && isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        encodeValue(item, `${path}.${key}`),
+      ])
+    );
+  }
+  const kind =
+    typeof value === 'object'
+      ? `an instance of ${value.constructor?.name ?? 'a class'}`
+      : `a ${typeof value}`;
+  throw new Error(
+    `Cannot journal ${path}: it is ${kind}, only JSON values can be stored`
+  );
+};
+
+const decodeValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  const record = value as Record<string, unknown>;
+  const marker = record[MARKER_KEY];
+  if (Object.keys(record).length === 1 && typeof marker === 'string') {
+    if (Object.hasOwn(markers, marker)) {
+      return markers[marker as MarkerName];
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(record).map(([key, item]) => [key, decodeValue(item)])
+  );
+};
+
+// The JSON value an entry is serialised as, for stores that nest entries
+const encodeEntry = (entry: JournalEntry): unknown =>
+  encodeValue(entry, 'entry');
+
+const decodeEntry = (json: unknown): JournalEntry =>
+  decodeValue(json) as JournalEntry;
+
+/**
+ * Serialise a journal entry the way every store keeps it. Inactive branches
+ * and undefined survive the round trip; functions, symbols, class instances
+ * and non-finite numbers are rejected, naming where they were found
+ */
+export const serializeJournalEntry = (entry: JournalEntry): string =>
+  JSON.stringify(encodeEntry(entry));
+
+export const parseJournalEntry = (text: string): JournalEntry =>
+  decodeEntry(JSON.parse(text));
+
+/**
+ * Keeps journals for the lifetime of the store; entries are kept serialised,
+ * so later mutation of node outputs cannot rewrite history and resuming
+ * behaves as it does with the persistent stores
+ */
+export class MemoryJournalStore implements JournalStore {
+  private runs: Map<RunId, string[]>;
+
+  constructor() {
+    this.runs = new Map();
+  }
+
+  async append(entry: JournalEntry): Promise<void> {
+    const entries = this.runs.get(entry.runId) ?? [];
+    entries.push(serializeJournalEntry(entry));
+    this.runs.set(entry.runId, entries);
+  }
+
+  async read(runId: RunId): Promise<ReadonlyArray<JournalEntry>> {
+    return (this.runs.get(runId) ?? []).map(parseJournalEntry);
+  }
+
+  async listRuns(): Promise<ReadonlyArray<RunId>> {
+    return Array.from(this.runs.keys());
+  }
+
+  async clear(runId: RunId): Promise<void> {
+    this.runs.delete(runId);
+  }
+}
+
+// The subset of the Web Storage API the journal needs
+export type JournalStorage = Pick<
+  Storage,
+  'getItem' | 'setItem' | 'removeItem' | 'key' | 'length'
+>;
+
+/**
+ * Keeps each run as a JSON array of entries under `<prefix><runId>` in
+ * Web Storage
+ */
+export class LocalStorageJournalStore implements JournalStore {
+  private storage: JournalStorage;
+  private prefix: string;
+
+  constructor(
+    storage: JournalStorage = globalThis.localStorage,
+    prefix = 'workflow-journal:'
+  ) {
+    this.storage = storage;
+    this.prefix = prefix;
+  }
+
+  // Read, push and write without yielding, so nodes finishing at the same
+  // time cannot overwrite each other's entries
+  async append(entry: JournalEntry): Promise<void> {
+    const entries = this.entries(entry.runId);
+    entries.push(encodeEntry(entry));
+    this.storage.setItem(this.key(entry.runId), JSON.stringify(entries));
+  }
+
+  async read(runId: RunId): Promise<ReadonlyArray<JournalEntry>> {
+    return this.entries(runId).map(decodeEntry);
+  }
+
+  async listRuns(): Promise<ReadonlyArray<RunId>> {
+    const runs: RunId[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key?.startsWith(this.prefix)) {
+        runs.push(createRunId(key.slice(this.prefix.length)));
+      }
+    }
+    return runs;
+  }
+
+  async clear(runId: RunId): Promise<void> {
+    this.storage.removeItem(this.key(runId));
+  }
+
+  private entries(runId: RunId): unknown[] {
+    const raw = this.storage.getItem(this.key(runId));
+    return raw ? (JSON.parse(raw) as unknown[]) : [];
+  }
+
+  private key(runId: RunId): string {
+    return `${this.prefix}${runId}`;
+  }
+}
+
+// File access injected by the host, e.g. wrapping `fs/promises` in Node
+export interface JournalFileSystem {
+  // Resolves to undefined when the file does not exist
+  readFile(path: string): Promise<string | undefined>;
+  appendFile(path: string, data: string): Promise<void>;
+  removeFile(path: string): Promise<void>;
+  listFiles(directory: string): Promise<ReadonlyArray<string>>;
+}
+
+/**
+ * Keeps each run as JSON lines in `<directory>/<runId>.jsonl`
+ */
+export class FileJournalStore implements JournalStore {
+  private fs: JournalFileSystem;
+  private directory: string;
+  // The last queued append per run; the host's appendFile need not be safe
+  // to call while an earlier append to the same file is in flight
+  private appends: Map<RunId, Promise<void>>;
+
+  constructor(fs: JournalFileSystem, directory: string) {
+    this.fs = fs;
+    this.directory = directory;
+    this.appends = new Map();
+  }
+
+  async append(entry: JournalEntry): Promise<void> {
+    const { runId } = entry;
+    const line = `${serializeJournalEntry(entry)}\n`;
+    const previous = this.appends.get(runId) ?? Promise.resolve();
+    const next = previous
+      .catch(() => {}) // A failed append is reported to its own caller
+      .then(() => this.fs.appendFile(this.path(runId), line));
+    this.appends.set(runId, next);
+    try {
+      await next;
+    } finally {
+      if (this.appends.get(runId) === next) {
+        this.appends.delete(runId);
+      }
+    }
+  }
+
+  async read(runId: RunId): Promise<ReadonlyArray<JournalEntry>> {
+    const contents = await this.fs.readFile(this.path(runId));
+    if (!contents) {
+      return [];
+    }
+    return contents
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map(parseJournalEntry);
+  }
+
+  async listRuns(): Promise<ReadonlyArray<RunId>> {
+    const files = await this.fs.listFiles(this.directory);
+    return files
+      .filter((file) => file.endsWith('.jsonl'))
+      .map((file) => createRunId(file.slice(0, -'.jsonl'.length)));
+  }
+
+  async clear(runId: RunId): Promise<void> {
+    await this.fs.removeFile(this.path(runId));
+  }
+
+  private path(runId: RunId): string {
+    return `${this.directory}/${runId}.jsonl`;
+  }
+}
@@ -9,14 +9,26 @@ import type {
   PluginCapability,
   PluginRegistry,
 } from '../types/plugin';
+import { isTypeProviderPlugin } from '../types/plugin';
+import {
+  globalTypeRegistry,
+  TypeRegistry,
+  type NamedTypeDefinition,
+} from '../types/type-registry';
 
 export class PluginManager implements PluginRegistry {
   readonly plugins: Map<string, Plugin>;
   private capabilityIndex: Map<PluginCapability, Set<string>>;
+  // Receives the named types of type provider plugins
+  private types: TypeRegistry;
+  // The types each plugin registered, removed again when it unregisters
+  private providedTypes: Map<string, ReadonlyArray<NamedTypeDefinition>>;
 
-  constructor() {
+  constructor(types: TypeRegistry = globalTypeRegistry) {
     this.plugins = new Map();
     this.capabilityIndex = new Map();
+    this.types = types;
+    this.providedTypes = new Map();
   }
 
   /**
@@ -27,8 +39,19 @@ export class PluginManager implements PluginRegistry {
       throw new Error(`Plugin already registered: ${plugin.metadata.id}`);
     }
 
+    // Register named types first; a plugin whose types cannot all be
+    // registered is not registered at all
+    const types = isTypeProviderPlugin(plugin) ? plugin.types : [];
+    this.registerTypes(plugin.metadata.id, types);
+
     // Initialize plugin
-    const initResult = plugin.initialize();
+    let initResult: void | Promise<void>;
+    try {
+      initResult = plugin.initialize();
+    } catch (err) {
+      this.unregisterTypes(types);
+      throw err;
+    }
     if (initResult instanceof Promise) {
       initResult.catch((err) => {
         console.error(
@@ -40,6 +63,7 @@ export class PluginManager implements PluginRegistry {
 
     // Register plugin
     this.plugins.set(plugin.metadata.id, plugin);
+    this.providedTypes.set(plugin.metadata.id, types);
 
     // Index by capabilities
     for (const capability of plugin.capabilities) {
@@ -80,6 +104,8 @@ export class PluginManager implements PluginRegistry {
 
     // Remove plugin
     this.plugins.delete(pluginId);
+    this.unregisterTypes(this.providedTypes.get(pluginId) ?? []);
+    this.providedTypes.delete(pluginId);
     console.log(`Plugin unregistered: ${pluginId}`);
   }
 
@@ -151,6 +177,44 @@ export class PluginManager implements PluginRegistry {
       this.unregister(pluginId);
     }
   }
+
+  // Check every name before registering any, and undo the registrations
+  // made so far when one is still rejected, e.g. for a supertype cycle
+  private registerTypes(
+    pluginId: string,
+    types: ReadonlyArray<NamedTypeDefinition>
+  ): void {
+    const names = new Set<string>();
+    for (const type of types) {
+      if (this.types.has(type.name) || names.has(type.name)) {
+        throw new Error(
+          `Plugin ${pluginId} declares type ${type.name}, which is already registered`
+        );
+      }
+      names.add(type.name);
+    }
+
+    const registered: NamedTypeDefinition[] = [];
+    try {
+      for (const type of types) {
+        this.types.register(type);
+        registered.push(type);
+      }
+    } catch (err) {
+      this.unregisterTypes(registered);
+      throw err;
+    }
+  }
+
+  // Remove types only while they are the definitions the plugin registered,
+  // never a built-in or another owner's type of the same name
+  private unregisterTypes(types: ReadonlyArray<NamedTypeDefinition>): void {
+    for (const type of types) {
+      if (this.types.get(type.name) === type) {
+        this.types.unregister(type.name);
+      }
+    }
+  }
 }
 
 // Global plugin manager instance
@@ -0,0 +1,91 @@
+/**
+ * Retry Policies
+ * Demonstrates: Schema-validated Config, Pure Backoff Functions
+ */
+
+import type { WorkflowNode } from '../types/core';
+import { retryPolicySchema, type RetryPolicy } from '../schemas/node-schemas';
+
+export type ParsedRetryPolicy =
+  | { readonly success: true; readonly policy: RetryPolicy | undefined }
+  | { readonly success: false; readonly message: string };
+
+/**
+ * Read `node.data.retry`; nodes without one run exactly once
+ */
+export const parseRetryPolicy = (node: WorkflowNode): ParsedRetryPolicy => {
+  const raw = node.data?.retry;
+  if (raw === undefined) {
+    return { success: true, policy: undefined };
+  }
+
+  const result = retryPolicySchema.safeParse(raw);
+  if (!result.success) {
+    return {
+      success: false,
+      message: result.error.issues
+        .map((issue) => `${issue.path.join('.') || 'retry'}: ${issue.message}`)
+        .join('; '),
+    };
+  }
+  return { success: true, policy: result.data };
+};
+
+// Class names along the prototype chain, so subclasses match their parents
+const errorClassNames = (error: unknown): string[] => {
+  const names: string[] = [];
+  if (error instanceof Error) {
+    names.push(error.name);
+  }
+  if (typeof error === 'object' && error !== null) {
+    let proto: unknown = Object.getPrototypeOf(error);
+    while (typeof proto === 'object' && proto !== null) {
+      const ctor: unknown = Object.getOwnPropertyDescriptor(
+        proto,
+        'constructor'
+      )?.value;
+      if (typeof ctor === 'function' && ctor.name) {
+        names.push(ctor.name);
+      }
+      proto = Object.getPrototypeOf(proto);
+    }
+  }
+  return names;
+};
+
+/**
+ * Whether a thrown value may be retried; any error is when `retryOn` is unset
+ */
+export const isRetryableError = (
+  policy: RetryPolicy,
+  error: unknown
+): boolean => {
+  if (!policy.retryOn) {
+    return true;
+  }
+  const names = errorClassNames(error);
+  return policy.retryOn.some((name) => names.includes(name));
+};
+
+/**
+ * Delay before the attempt following `attempt` (1-based), with jitter applied
+ */
+export const retryDelay = (
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number => {
+  const { backoff } = policy;
+  const base =
+    backoff.kind === 'fixed'
+      ? backoff.delayMs
+      : Math.min(
+          backoff.initialDelayMs * backoff.multiplier ** (attempt - 1),
+          backoff.maxDelayMs ?? Infinity
+        );
+  const jittered = base * (1 + policy.jitter * (2 * random() - 1));
+  return Math.max(0, Math.round(jittered));
+};
+
+export const describeError = (error: unknown): string =>
+  error instanceof Error ? `${error.name}: ${error.message}` : String(error);
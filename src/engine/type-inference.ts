@@ -3,7 +3,24 @@
  * Demonstrates: Advanced Type Inference, Type Propagation
  */
 
-import type { WorkflowGraph, NodeId, PortType } from '../types/core';
+import type {
+  WorkflowGraph,
+  WorkflowNode,
+  NodeId,
+  ObjectField,
+  PortType,
+} from '../types/core';
+import {
+  checkPortCompatibility,
+  coercedType,
+  getCoercion,
+} from '../types/compatibility';
+import { formatPortType, hasTypeVariables } from '../types/port-types';
+import {
+  FOR_EACH_ITEM_PORT,
+  getForEachBody,
+  getForEachItemNode,
+} from '../types/nodes';
 import { GraphValidator } from './graph-validator';
 
 export interface InferredType {
@@ -20,11 +37,22 @@ export class TypeInferenceEngine {
   private graph: WorkflowGraph;
   private validator: GraphValidator;
   private inferredTypes: Map<string, InferredType>;
-
-  constructor(graph: WorkflowGraph) {
+  // Output types fixed from outside, e.g. the element port of a loop body
+  private seeds: ReadonlyMap<string, PortType>;
+  // Inferred types of embedded body graphs, per container node
+  private bodyTypes: Map<NodeId, Map<string, InferredType>>;
+  private typeErrors: NodeTypeError[];
+
+  constructor(
+    graph: WorkflowGraph,
+    seeds: ReadonlyMap<string, PortType> = new Map()
+  ) {
     this.graph = graph;
     this.validator = new GraphValidator(graph);
     this.inferredTypes = new Map();
+    this.seeds = seeds;
+    this.bodyTypes = new Map();
+    this.typeErrors = [];
   }
 
   /**
@@ -32,6 +60,8 @@ export class TypeInferenceEngine {
    */
   inferTypes(): Map<string, InferredType> {
     this.inferredTypes.clear();
+    this.bodyTypes.clear();
+    this.typeErrors = [];
 
     // Get topological order
     const topSort = this.validator.topologicalSort();
@@ -54,22 +84,78 @@ export class TypeInferenceEngine {
     const node = this.graph.nodes.find((n) => n.id === nodeId);
     if (!node) return;
 
+    // Bind the node's type variables to the types arriving on its inputs
+    const solver = new TypeSolver();
+    for (const input of node.inputs) {
+      const incoming = this.getInferredType(nodeId, input.id);
+      const error =
+        incoming &&
+        solver.unify(
+          input.portType,
+          arrivingType(incoming.portType, input.portType)
+        );
+      if (error) {
+        this.typeErrors.push({ ...error, nodeId, portId: input.id });
+      }
+    }
+
     // Infer output types based on node type and inputs
     for (const output of node.outputs) {
       const key = TypeInferenceEngine.makeKey(nodeId, output.id);
 
-      // For most nodes, output type is defined by the node itself
+      // Output types are the node's own, with variables left unbound by the
+      // inputs widened to any
       this.inferredTypes.set(key, {
         nodeId,
         portId: output.id,
-        portType: output.portType,
+        portType:
+          this.seeds.get(key) ?? solver.resolve(output.portType, anyType),
       });
     }
 
+    if (node.type === 'logic.forEach') {
+      this.inferForEachBody(node);
+    }
+
     // Propagate types to connected nodes
     this.propagateTypes(nodeId);
   }
 
+  /**
+   * Infer the body of a ForEach node, typing its item port with the element
+   * type of the array connected to `items`
+   */
+  private inferForEachBody(node: WorkflowNode): void {
+    const body = getForEachBody(node);
+    const itemNode = body && getForEachItemNode(body.graph);
+    if (!body || !itemNode) return;
+
+    const itemsType = this.getInferredType(node.id, 'items')?.portType;
+    const seeds = new Map([
+      [
+        TypeInferenceEngine.makeKey(itemNode.id, FOR_EACH_ITEM_PORT),
+        itemsType ? elementType(itemsType) : anyType,
+      ],
+    ]);
+
+    try {
+      const bodyEngine = new TypeInferenceEngine(body.graph, seeds);
+      this.bodyTypes.set(node.id, bodyEngine.inferTypes());
+      this.typeErrors.push(...bodyEngine.getTypeErrors());
+    } catch {
+      // Cyclic bodies are reported by GraphValidator
+    }
+  }
+
+  /**
+   * Get inferred types of the body graph embedded in a container node
+   */
+  getBodyInferredTypes(
+    nodeId: NodeId
+  ): ReadonlyMap<string, InferredType> | undefined {
+    return this.bodyTypes.get(nodeId);
+  }
+
   /**
    * Propagate types through connections
    */
@@ -103,6 +189,14 @@ export class TypeInferenceEngine {
     }
   }
 
+  /**
+   * Type variables that could not be unified in the last inference,
+   * including those in loop bodies
+   */
+  getTypeErrors(): ReadonlyArray<NodeTypeError> {
+    return this.typeErrors;
+  }
+
   /**
    * Get inferred type for a specific port
    */
@@ -193,6 +287,295 @@ export class TypeInferenceEngine {
   }
 }
 
+const anyType: PortType = { kind: 'any', type: undefined };
+
+/**
+ * Port type describing a runtime value, down to object fields and array
+ * elements
+ */
+export function portTypeOfValue(value: unknown): PortType {
+  if (typeof value === 'string') return { kind: 'string', type: value };
+  if (typeof value === 'number') return { kind: 'number', type: value };
+  if (typeof value === 'boolean') return { kind: 'boolean', type: value };
+  if (Array.isArray(value)) {
+    return {
+      kind: 'array',
+      type: value,
+      element: leastUpperBound(value.map(portTypeOfValue)),
+    };
+  }
+  if (typeof value === 'object' && value !== null) {
+    const fields: Record<string, ObjectField> = {};
+    for (const [name, fieldValue] of Object.entries(value)) {
+      fields[name] = { type: portTypeOfValue(fieldValue) };
+    }
+    return { kind: 'object', type: value as Record<string, unknown>, fields };
+  }
+  return anyType;
+}
+
+/**
+ * Element type of an array or tuple type. Arrays without a declared element
+ * type fall back to the common type of their sample's elements.
+ */
+export function elementType(portType: PortType): PortType {
+  if (portType.kind === 'tuple') {
+    return leastUpperBound([...portType.elements]);
+  }
+  if (portType.kind !== 'array') {
+    return anyType;
+  }
+  if (portType.element) {
+    return portType.element;
+  }
+  return Array.isArray(portType.type)
+    ? leastUpperBound(portType.type.map(portTypeOfValue))
+    : anyType;
+}
+
+// Why a type could not be unified, at a field path from the port
+export interface UnificationError {
+  readonly path: string;
+  readonly message: string;
+}
+
+// A unification error on one input port of a node
+export interface NodeTypeError extends UnificationError {
+  readonly nodeId: NodeId;
+  readonly portId: string;
+}
+
+export const formatNodeTypeError = (error: NodeTypeError): string =>
+  `Type error on ${error.nodeId}:${error.portId}${
+    error.path ? ` at ${error.path}` : ''
+  }: ${error.message}`;
+
+// A coercion edge delivers its converter's output type
+const arrivingType = (incoming: PortType, declared: PortType): PortType => {
+  const coercion = getCoercion(incoming, declared);
+  return coercion && coercion.level !== 'forbidden'
+    ? coercedType(coercion.converter, incoming)
+    : incoming;
+};
+
+const fieldPath = (path: string, field: string): string =>
+  path ? `${path}.${field}` : field;
+
+/**
+ * Constraint solver for type variables. Each `unify` call constrains a
+ * declared type, which may mention variables, by the type actually flowing
+ * into it. A variable binds to the first type it meets and widens to later
+ * types its binding fits; any other later type is a conflict.
+ */
+export class TypeSolver {
+  private bindings: Map<string, PortType>;
+
+  constructor() {
+    this.bindings = new Map();
+  }
+
+  unify(
+    declared: PortType,
+    actual: PortType,
+    path = ''
+  ): UnificationError | undefined {
+    const error = this.bindVariables(declared, actual, path);
+    if (error || !hasTypeVariables(declared)) {
+      return error;
+    }
+
+    // The declared shape around the variables must fit too
+    const compatibility = checkPortCompatibility(
+      actual,
+      this.resolve(declared)
+    );
+    return compatibility.valid
+      ? undefined
+      : { path, message: compatibility.errorMessage ?? 'Type mismatch' };
+  }
+
+  /**
+   * Substitute bound variables; unbound ones are kept, or replaced by
+   * `unbound` when given
+   */
+  resolve(portType: PortType, unbound?: PortType): PortType {
+    switch (portType.kind) {
+      case 'var': {
+        const bound = this.bindings.get(portType.name);
+        return bound ? this.resolve(bound, unbound) : (unbound ?? portType);
+      }
+      case 'object': {
+        if (!portType.fields) {
+          return portType;
+        }
+        const fields: Record<string, ObjectField> = {};
+        for (const [name, field] of Object.entries(portType.fields)) {
+          fields[name] = { ...field, type: this.resolve(field.type, unbound) };
+        }
+        return { ...portType, fields };
+      }
+      case 'array':
+        return portType.element
+          ? { ...portType, element: this.resolve(portType.element, unbound) }
+          : portType;
+      case 'tuple':
+        return {
+          ...portType,
+          elements: portType.elements.map((t) => this.resolve(t, unbound)),
+        };
+      case 'union':
+        return {
+          ...portType,
+          members: portType.members.map((t) => this.resolve(t, unbound)),
+        };
+      case 'nullable':
+        return { ...portType, inner: this.resolve(portType.inner, unbound) };
+      default:
+        return portType;
+    }
+  }
+
+  /**
+   * Walk the declared type alongside the actual one, binding variables.
+   * Shapes that differ are left to the compatibility check in `unify`.
+   */
+  private bindVariables(
+    declared: PortType,
+    actual: PortType,
+    path: string
+  ): UnificationError | undefined {
+    if (declared.kind === 'var') {
+      return this.bind(declared.name, actual, path);
+    }
+    if (actual.kind === 'any' || actual.kind === 'var') {
+      return undefined;
+    }
+
+    switch (declared.kind) {
+      case 'array':
+        return declared.element &&
+          (actual.kind === 'array' || actual.kind === 'tuple')
+          ? this.bindVariables(
+              declared.element,
+              elementType(actual),
+              `${path}[]`
+            )
+          : undefined;
+      case 'tuple': {
+        if (
+          actual.kind !== 'tuple' ||
+          actual.elements.length !== declared.elements.length
+        ) {
+          return undefined;
+        }
+        for (const [index, type] of declared.elements.entries()) {
+          const error = this.bindVariables(
+            type,
+            actual.elements[index],
+            `${path}[${index}]`
+          );
+          if (error) {
+            return error;
+          }
+        }
+        return undefined;
+      }
+      case 'object': {
+        if (actual.kind !== 'object' || !declared.fields || !actual.fields) {
+          return undefined;
+        }
+        for (const [name, field] of Object.entries(declared.fields)) {
+          const actualField = Object.hasOwn(actual.fields, name)
+            ? actual.fields[name]
+            : undefined;
+          const error =
+            actualField &&
+            this.bindVariables(
+              field.type,
+              actualField.type,
+              fieldPath(path, name)
+            );
+          if (error) {
+            return error;
+          }
+        }
+        return undefined;
+      }
+      case 'nullable':
+        return this.bindVariables(
+          declared.inner,
+          actual.kind === 'nullable' ? actual.inner : actual,
+          path
+        );
+      default:
+        // Variables inside unions are not inferred
+        return undefined;
+    }
+  }
+
+  private bind(
+    name: string,
+    actual: PortType,
+    path: string
+  ): UnificationError | undefined {
+    if (actual.kind === 'var' && actual.name === name) {
+      return undefined;
+    }
+
+    const bound = this.bindings.get(name);
+    if (!bound) {
+      if (this.occurs(name, actual)) {
+        return {
+          path,
+          message: `${name} cannot be ${formatPortType(actual)}: the type would contain itself`,
+        };
+      }
+      this.bindings.set(name, actual);
+      return undefined;
+    }
+
+    const resolved = this.resolve(bound);
+    if (checkPortCompatibility(actual, resolved).valid) {
+      return undefined;
+    }
+    if (checkPortCompatibility(resolved, actual).valid) {
+      this.bindings.set(name, actual);
+      return undefined;
+    }
+    return {
+      path,
+      message: `${name} is ${formatPortType(resolved)} elsewhere, but ${formatPortType(actual)} here`,
+    };
+  }
+
+  // Occurs check: binding `name` to a type mentioning it would be infinite
+  private occurs(name: string, portType: PortType): boolean {
+    switch (portType.kind) {
+      case 'var': {
+        if (portType.name === name) {
+          return true;
+        }
+        const bound = this.bindings.get(portType.name);
+        return bound ? this.occurs(name, bound) : false;
+      }
+      case 'object':
+        return Object.values(portType.fields ?? {}).some((field) =>
+          this.occurs(name, field.type)
+        );
+      case 'array':
+        return portType.element ? this.occurs(name, portType.element) : false;
+      case 'tuple':
+        return portType.elements.some((t) => this.occurs(name, t));
+      case 'union':
+        return portType.members.some((t) => this.occurs(name, t));
+      case 'nullable':
+        return this.occurs(name, portType.inner);
+      default:
+        return false;
+    }
+  }
+}
+
 /**
  * Unify two types and find the most specific common type
  */
@@ -201,33 +584,36 @@ export function unifyTypes(type1: PortType, type2: PortType): PortType | null {
   if (type1.kind === 'any') return type2;
   if (type2.kind === 'any') return type1;
 
-  // If same kind, return either
-  if (type1.kind === type2.kind) {
-    return type1;
+  const solver = new TypeSolver();
+  if (solver.unify(type1, type2)) {
+    return null;
   }
-
-  // No unification possible
-  return null;
+  const unified = solver.resolve(type1);
+  return checkPortCompatibility(type2, unified).valid ? unified : null;
 }
 
 /**
- * Find the least upper bound (most general type) of multiple types
+ * Find the least upper bound (most general type) of multiple types: the
+ * type every other one fits, or else their union
  */
 export function leastUpperBound(types: PortType[]): PortType {
-  if (types.length === 0) {
+  if (types.length === 0 || types.some((t) => t.kind === 'any')) {
     return { kind: 'any', type: undefined };
   }
 
-  if (types.length === 1) {
-    return types[0];
-  }
-
-  // Check if all types are the same
-  const firstKind = types[0].kind;
-  if (types.every((t) => t.kind === firstKind)) {
-    return types[0];
+  const upper = types.find((candidate) =>
+    types.every((t) => checkPortCompatibility(t, candidate).valid)
+  );
+  if (upper) {
+    return upper;
   }
 
-  // Otherwise, return 'any' as the most general type
-  return { kind: 'any', type: undefined };
+  // Otherwise, one member per distinct type
+  const members = types.filter(
+    (t, index) =>
+      !types
+        .slice(0, index)
+        .some((earlier) => checkPortCompatibility(t, earlier).valid)
+  );
+  return { kind: 'union', type: undefined, members };
 }
@@ -0,0 +1,60 @@
+/**
+ * Runtime Type Checks - Values crossing edges against their target port type
+ * Demonstrates: Schemas Derived from Types, Custom Error Classes
+ */
+
+import type { z } from 'zod';
+import type { PortType } from '../types/core';
+import type { TypeViolation } from '../types/execution';
+import { portValueSchema } from '../schemas/node-schemas';
+
+// Port types are immutable, so each one's schema is built once
+const schemas = new WeakMap<PortType, z.ZodTypeAny>();
+
+const schemaFor = (portType: PortType): z.ZodTypeAny => {
+  let schema = schemas.get(portType);
+  if (!schema) {
+    schema = portValueSchema(portType);
+    schemas.set(portType, schema);
+  }
+  return schema;
+};
+
+const formatPath = (path: ReadonlyArray<string | number>): string =>
+  path.reduce<string>((formatted, segment) => {
+    if (typeof segment === 'number') {
+      return `${formatted}[${segment}]`;
+    }
+    return formatted ? `${formatted}.${segment}` : segment;
+  }, '');
+
+/**
+ * Where a value first fails to match a port type; undefined when it matches
+ */
+export const checkPortValue = (
+  value: unknown,
+  portType: PortType
+): { readonly path: string; readonly message: string } | undefined => {
+  const result = schemaFor(portType).safeParse(value);
+  if (result.success) {
+    return undefined;
+  }
+  const [issue] = result.error.issues;
+  return { path: formatPath(issue.path), message: issue.message };
+};
+
+export const formatTypeViolation = (violation: TypeViolation): string =>
+  `Type violation on edge ${violation.edgeId} (${violation.source}:${violation.sourcePort} -> ${violation.target}:${violation.targetPort})${
+    violation.path ? ` at ${violation.path}` : ''
+  }: ${violation.message} (port type ${violation.expected})`;
+
+// Thrown in strict runs, failing the node the value arrived at
+export class TypeViolationError extends Error {
+  readonly violation: TypeViolation;
+
+  constructor(violation: TypeViolation) {
+    super(formatTypeViolation(violation));
+    this.name = 'TypeViolationError';
+    this.violation = violation;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Workflow Repository
+ * Demonstrates: Repository Pattern, Branded Keys
+ */
+
+import type { WorkflowGraph, WorkflowId } from '../types/core';
+import type { WorkflowRepository } from '../types/graph';
+
+export class InMemoryWorkflowRepository implements WorkflowRepository {
+  private workflows: Map<WorkflowId, WorkflowGraph>;
+
+  constructor(workflows: ReadonlyArray<WorkflowGraph> = []) {
+    this.workflows = new Map(workflows.map((w) => [w.id, w]));
+  }
+
+  /**
+   * Save a workflow, replacing any earlier version with the same id
+   */
+  save(workflow: WorkflowGraph): void {
+    this.workflows.set(workflow.id, workflow);
+  }
+
+  remove(id: WorkflowId): boolean {
+    return this.workflows.delete(id);
+  }
+
+  get(id: WorkflowId): WorkflowGraph | undefined {
+    return this.workflows.get(id);
+  }
+
+  list(): ReadonlyArray<WorkflowGraph> {
+    return Array.from(this.workflows.values());
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Workflow Debugger Hook
+ */
+
+import { useEffect, useState } from 'react';
+import type { NodeId } from '../types/core';
+import type { PausedNode } from '../types/debug';
+import { WorkflowDebugger } from '../engine/debugger';
+
+export const useDebugger = () => {
+  // One debugger for the page, so breakpoints outlive individual runs
+  const [debug] = useState(() => new WorkflowDebugger());
+  const [paused, setPaused] = useState<PausedNode | undefined>(undefined);
+  const [breakpoints, setBreakpoints] = useState<ReadonlySet<NodeId>>(
+    () => new Set(debug.getBreakpoints())
+  );
+
+  useEffect(() => {
+    const unsubscribers = [
+      debug.events.on('paused', (event) => setPaused(event.paused)),
+      debug.events.on('resumed', () => setPaused(debug.getPaused())),
+      debug.events.on('breakpoints-changed', (event) =>
+        setBreakpoints(event.breakpoints)
+      ),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [debug]);
+
+  return { debug, paused, breakpoints };
+};
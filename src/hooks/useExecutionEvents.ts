@@ -0,0 +1,85 @@
+/**
+ * Live Execution Progress Hook
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { NodeId } from '../types/core';
+import type { NodeInputs, NodeOutputs } from '../types/execution';
+import type { ExecutionEvent, NodeRunStatus } from '../types/events';
+import type { WorkflowExecutor } from '../engine/executor';
+
+// What one node did in the tracked run
+export interface NodeRun {
+  readonly status: NodeRunStatus;
+  readonly inputs?: NodeInputs;
+  readonly outputs?: NodeOutputs;
+  readonly error?: string;
+  readonly durationMs?: number;
+  readonly pinned?: boolean;
+}
+
+const applyNodeEvent = (
+  runs: ReadonlyMap<NodeId, NodeRun>,
+  event: ExecutionEvent
+): ReadonlyMap<NodeId, NodeRun> => {
+  if (event.type === 'node-paused') {
+    return new Map(runs).set(event.nodeId, {
+      status: 'paused',
+      inputs: event.inputs,
+    });
+  } else if (event.type === 'node-started') {
+    return new Map(runs).set(event.nodeId, {
+      status: 'running',
+      inputs: event.inputs,
+    });
+  } else if (event.type === 'node-succeeded') {
+    return new Map(runs).set(event.nodeId, {
+      ...runs.get(event.nodeId),
+      status: 'succeeded',
+      outputs: event.outputs,
+      durationMs: event.durationMs,
+      pinned: event.pinned,
+    });
+  } else if (event.type === 'node-failed') {
+    return new Map(runs).set(event.nodeId, {
+      ...runs.get(event.nodeId),
+      status: 'failed',
+      outputs: event.outputs,
+      error: event.error,
+      durationMs: event.durationMs,
+    });
+  } else if (event.type === 'node-skipped') {
+    return new Map(runs).set(event.nodeId, { status: 'skipped' });
+  }
+  return runs;
+};
+
+export const useExecutionEvents = () => {
+  const [events, setEvents] = useState<ReadonlyArray<ExecutionEvent>>([]);
+  const [nodeRuns, setNodeRuns] = useState<ReadonlyMap<NodeId, NodeRun>>(
+    new Map()
+  );
+  const [running, setRunning] = useState(false);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+
+  // Subscribe before `execute` is called so the run-started event is seen
+  const track = useCallback((executor: WorkflowExecutor) => {
+    unsubscribeRef.current?.();
+    setEvents([]);
+    setNodeRuns(new Map());
+
+    unsubscribeRef.current = executor.events.onAny((event) => {
+      setEvents((prev) => [...prev, event]);
+      setNodeRuns((prev) => applyNodeEvent(prev, event));
+      if (event.type === 'run-started') {
+        setRunning(true);
+      } else if (event.type === 'run-finished') {
+        setRunning(false);
+      }
+    });
+  }, []);
+
+  useEffect(() => () => unsubscribeRef.current?.(), []);
+
+  return { events, nodeRuns, running, track };
+};
@@ -0,0 +1,57 @@
+/**
+ * Run History Store
+ */
+
+import { create } from 'zustand';
+import type { WorkflowId } from '../types/core';
+import type { RunRecord } from '../types/history';
+
+export const DEFAULT_HISTORY_LIMIT = 20;
+
+interface RunHistoryState {
+  // Newest first, at most `limit` runs per workflow
+  readonly runs: Readonly<Record<WorkflowId, ReadonlyArray<RunRecord>>>;
+  readonly limit: number;
+
+  addRun(record: RunRecord): void;
+  clearRuns(workflowId: WorkflowId): void;
+  setLimit(limit: number): void;
+}
+
+export const useRunHistory = create<RunHistoryState>()((set) => ({
+  runs: {},
+  limit: DEFAULT_HISTORY_LIMIT,
+
+  addRun: (record) =>
+    set((state) => ({
+      runs: {
+        ...state.runs,
+        [record.workflowId]: [
+          record,
+          ...(state.runs[record.workflowId] ?? []),
+        ].slice(0, state.limit),
+      },
+    })),
+
+  clearRuns: (workflowId) =>
+    set((state) => ({
+      runs: Object.fromEntries(
+        Object.entries(state.runs).filter(([id]) => id !== workflowId)
+      ),
+    })),
+
+  setLimit: (limit) => {
+    if (!(Number.isInteger(limit) && limit >= 1)) {
+      throw new Error(`History limit must be a positive integer, got ${limit}`);
+    }
+    set((state) => ({
+      limit,
+      runs: Object.fromEntries(
+        Object.entries(state.runs).map(([workflowId, runs]) => [
+          workflowId,
+          runs.slice(0, limit),
+        ])
+      ),
+    }));
+  },
+}));
@@ -4,15 +4,18 @@
 
 import { useEffect, useState } from 'react';
 import type { WorkflowGraph } from '../types/core';
-import { checkPortCompatibility } from '../types/compatibility';
+import { getCoercion } from '../types/compatibility';
 
 export const useTypeChecker = (graph: WorkflowGraph) => {
   const [edgeValidation, setEdgeValidation] = useState<Map<string, boolean>>(
     new Map()
   );
+  // Edges that connect through a lossy coercion
+  const [lossyEdges, setLossyEdges] = useState<ReadonlySet<string>>(new Set());
 
   useEffect(() => {
     const validation = new Map<string, boolean>();
+    const lossy = new Set<string>();
 
     for (const edge of graph.edges) {
       const sourceNode = graph.nodes.find((n) => n.id === edge.source);
@@ -35,15 +38,17 @@ export const useTypeChecker = (graph: WorkflowGraph) => {
         continue;
       }
 
-      const compatibility = checkPortCompatibility(
-        sourcePort.portType,
-        targetPort.portType
-      );
-      validation.set(edge.id, compatibility.valid);
+      // Edges that coerce their values are valid, unless forbidden
+      const coercion = getCoercion(sourcePort.portType, targetPort.portType);
+      validation.set(edge.id, coercion?.level !== 'forbidden');
+      if (coercion?.level === 'lossy') {
+        lossy.add(edge.id);
+      }
     }
 
     setEdgeValidation(validation);
+    setLossyEdges(lossy);
   }, [graph]);
 
-  return { edgeValidation };
+  return { edgeValidation, lossyEdges };
 };
@@ -12,41 +12,61 @@ import type {
   EdgeId,
 } from '../types/core';
 import { createWorkflowId } from '../types/core';
+import type { WorkflowRepository } from '../types/graph';
 import { GraphValidator } from '../engine/graph-validator';
 import {
   TypeInferenceEngine,
+  formatNodeTypeError,
   type InferredType,
 } from '../engine/type-inference';
 
-export const useWorkflowGraph = (initialGraph?: WorkflowGraph) => {
+const createEmptyGraph = (
+  id = createWorkflowId('workflow-1')
+): WorkflowGraph => ({
+  id,
+  name: 'New Workflow',
+  nodes: [],
+  edges: [],
+  metadata: {
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    version: '1.0.0',
+  },
+});
+
+// Metadata of a graph after an edit; graphs without any get it now
+const touched = (graph: WorkflowGraph): WorkflowGraph['metadata'] => {
+  const now = new Date().toISOString();
+  return {
+    createdAt: graph.metadata?.createdAt ?? now,
+    updatedAt: now,
+    version: graph.metadata?.version ?? '1.0.0',
+  };
+};
+
+// `workflows` holds the saved workflows subworkflow nodes are checked against
+export const useWorkflowGraph = (
+  initialGraph?: WorkflowGraph,
+  workflows?: WorkflowRepository
+) => {
   const [graph, setGraph] = useState<WorkflowGraph>(
-    initialGraph || {
-      id: createWorkflowId('workflow-1'),
-      name: 'New Workflow',
-      nodes: [],
-      edges: [],
-      metadata: {
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        version: '1.0.0',
-      },
-    }
+    () => initialGraph || createEmptyGraph()
   );
 
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [validationWarnings, setValidationWarnings] = useState<string[]>([]);
   const [inferredTypes, setInferredTypes] = useState<Map<string, InferredType>>(
     new Map()
   );
+  // Type variables inference could not unify
+  const [typeErrors, setTypeErrors] = useState<string[]>([]);
 
   // Add node
   const addNode = useCallback((node: WorkflowNode) => {
     setGraph((prev) => ({
       ...prev,
       nodes: [...prev.nodes, node],
-      metadata: {
-        ...(prev.metadata || {}),
-        updatedAt: new Date().toISOString(),
-      },
+      metadata: touched(prev),
     }));
   }, []);
 
@@ -58,25 +78,22 @@ export const useWorkflowGraph = (initialGraph?: WorkflowGraph) => {
       edges: prev.edges.filter(
         (e) => e.source !== nodeId && e.target !== nodeId
       ),
-      metadata: {
-        ...(prev.metadata || {}),
-        updatedAt: new Date().toISOString(),
-      },
+      metadata: touched(prev),
     }));
   }, []);
 
-  // Update node
+  // Update node; it keeps its type and category
   const updateNode = useCallback(
-    (nodeId: NodeId, updates: Partial<WorkflowNode>) => {
+    (
+      nodeId: NodeId,
+      updates: Partial<Omit<WorkflowNode, 'type' | 'category'>>
+    ) => {
       setGraph((prev) => ({
         ...prev,
         nodes: prev.nodes.map((n) =>
           n.id === nodeId ? { ...n, ...updates } : n
         ),
-        metadata: {
-          ...(prev.metadata || {}),
-          updatedAt: new Date().toISOString(),
-        },
+        metadata: touched(prev),
       }));
     },
     []
@@ -87,10 +104,7 @@ export const useWorkflowGraph = (initialGraph?: WorkflowGraph) => {
     setGraph((prev) => ({
       ...prev,
       edges: [...prev.edges, edge],
-      metadata: {
-        ...(prev.metadata || {}),
-        updatedAt: new Date().toISOString(),
-      },
+      metadata: touched(prev),
     }));
   }, []);
 
@@ -99,17 +113,28 @@ export const useWorkflowGraph = (initialGraph?: WorkflowGraph) => {
     setGraph((prev) => ({
       ...prev,
       edges: prev.edges.filter((e) => e.id !== edgeId),
-      metadata: {
-        ...(prev.metadata || {}),
-        updatedAt: new Date().toISOString(),
-      },
+      metadata: touched(prev),
+    }));
+  }, []);
+
+  // Rename graph
+  const renameGraph = useCallback((name: string) => {
+    setGraph((prev) => ({
+      ...prev,
+      name,
+      metadata: touched(prev),
     }));
   }, []);
 
   // Validate graph
   const validateGraph = useCallback(() => {
-    const validator = new GraphValidator(graph);
+    const validator = new GraphValidator(graph, workflows);
     const result = validator.validate();
+    setValidationWarnings(
+      result.warnings.map(
+        (warning) => `Lossy coercion ${warning.edgeId}: ${warning.reason}`
+      )
+    );
 
     if (result.valid) {
       setValidationErrors([]);
@@ -119,11 +144,21 @@ export const useWorkflowGraph = (initialGraph?: WorkflowGraph) => {
           case 'cycle':
             return `Cycle detected: ${err.nodes.join(' -> ')}`;
           case 'unsatisfied-input':
-            return `Unsatisfied input: ${err.nodeId}:${err.portId}`;
+            return `Unsatisfied input: ${err.nodeId}:${err.portId}${
+              err.reason ? ` (${err.reason})` : ''
+            }`;
           case 'invalid-connection':
             return `Invalid connection ${err.edgeId}: ${err.reason}`;
           case 'orphan-node':
             return `Orphan node: ${err.nodeId}`;
+          case 'incompatible-operands':
+            return `Incompatible operands for '${err.operator}' on ${err.nodeId}: ${err.reason}`;
+          case 'invalid-error-policy':
+            return `Invalid error policy on ${err.nodeId}: ${err.reason}`;
+          case 'invalid-subgraph':
+            return `Invalid subgraph in ${err.nodeId}: ${err.reason}`;
+          case 'workflow-cycle':
+            return `Workflow recursion via ${err.nodeId}: ${err.workflows.join(' -> ')}`;
           default:
             return 'Unknown error';
         }
@@ -132,7 +167,7 @@ export const useWorkflowGraph = (initialGraph?: WorkflowGraph) => {
     }
 
     return result.valid;
-  }, [graph]);
+  }, [graph, workflows]);
 
   // Infer types
   const inferTypes = useCallback(() => {
@@ -140,6 +175,7 @@ export const useWorkflowGraph = (initialGraph?: WorkflowGraph) => {
       const engine = new TypeInferenceEngine(graph);
       const types = engine.inferTypes();
       setInferredTypes(types);
+      setTypeErrors(engine.getTypeErrors().map(formatNodeTypeError));
       return true;
     } catch (error) {
       console.error('Type inference failed:', error);
@@ -147,23 +183,34 @@ export const useWorkflowGraph = (initialGraph?: WorkflowGraph) => {
     }
   }, [graph]);
 
-  // Clear graph
-  const clearGraph = useCallback(() => {
-    setGraph({
-      id: createWorkflowId('workflow-1'),
-      name: 'New Workflow',
-      nodes: [],
-      edges: [],
-      metadata: {
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        version: '1.0.0',
-      },
-    });
+  // Drop results computed for an earlier graph
+  const resetResults = useCallback(() => {
     setValidationErrors([]);
+    setValidationWarnings([]);
     setInferredTypes(new Map());
+    setTypeErrors([]);
   }, []);
 
+  // Load graph, e.g. a saved workflow
+  const loadGraph = useCallback(
+    (next: WorkflowGraph) => {
+      setGraph(next);
+      resetResults();
+    },
+    [resetResults]
+  );
+
+  // Clear graph, keeping its id and name
+  const clearGraph = useCallback(() => {
+    setGraph((prev) => ({ ...createEmptyGraph(prev.id), name: prev.name }));
+    resetResults();
+  }, [resetResults]);
+
+  // Start a new workflow under a fresh id, so it can be saved alongside others
+  const newGraph = useCallback(() => {
+    loadGraph(createEmptyGraph(createWorkflowId(`workflow-${Date.now()}`)));
+  }, [loadGraph]);
+
   return {
     graph,
     setGraph,
@@ -172,10 +219,15 @@ export const useWorkflowGraph = (initialGraph?: WorkflowGraph) => {
     updateNode,
     addEdge,
     removeEdge,
+    renameGraph,
     validateGraph,
     inferTypes,
+    loadGraph,
     clearGraph,
+    newGraph,
     validationErrors,
+    validationWarnings,
     inferredTypes,
+    typeErrors,
   };
 };
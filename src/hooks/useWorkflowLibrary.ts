@@ -0,0 +1,30 @@
+/**
+ * Workflow Library Store
+ */
+
+import { create } from 'zustand';
+import type { WorkflowGraph, WorkflowId } from '../types/core';
+
+interface WorkflowLibraryState {
+  // Saved workflows that subworkflow nodes can reference, by id
+  readonly workflows: Readonly<Record<WorkflowId, WorkflowGraph>>;
+
+  saveWorkflow(workflow: WorkflowGraph): void;
+  removeWorkflow(workflowId: WorkflowId): void;
+}
+
+export const useWorkflowLibrary = create<WorkflowLibraryState>()((set) => ({
+  workflows: {},
+
+  saveWorkflow: (workflow) =>
+    set((state) => ({
+      workflows: { ...state.workflows, [workflow.id]: workflow },
+    })),
+
+  removeWorkflow: (workflowId) =>
+    set((state) => ({
+      workflows: Object.fromEntries(
+        Object.entries(state.workflows).filter(([id]) => id !== workflowId)
+      ),
+    })),
+}));
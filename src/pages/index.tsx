@@ -1,7 +1,16 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useRef } from 'react';
 import { WorkflowCanvas } from '../components/WorkflowCanvas';
 import { NodePalette } from '../components/NodePalette';
 import { TypeInspector } from '../components/TypeInspector';
+import { SwitchCaseEditor } from '../components/SwitchCaseEditor';
+import { ErrorPolicyEditor } from '../components/ErrorPolicyEditor';
+import { NodeRunDetails } from '../components/NodeRunDetails';
+import { RunHistoryPanel } from '../components/RunHistoryPanel';
+import { DebuggerPanel } from '../components/DebuggerPanel';
+import { PinnedOutputsEditor } from '../components/PinnedOutputsEditor';
+import { PartialRunActions } from '../components/PartialRunActions';
+import { SubworkflowPicker } from '../components/SubworkflowPicker';
+import { WorkflowLibraryPanel } from '../components/WorkflowLibraryPanel';
 import { Button } from '../components/ui/button';
 import {
   AlertDialog,
@@ -15,12 +24,48 @@ import {
   AlertDialogTrigger,
 } from '../components/ui/alert-dialog';
 import { useWorkflowGraph } from '../hooks/useWorkflowGraph';
-import { nodeFactories, type NodeFactoryType } from '../types/nodes';
+import { useExecutionEvents } from '../hooks/useExecutionEvents';
+import { useRunHistory } from '../hooks/useRunHistory';
+import { useDebugger } from '../hooks/useDebugger';
+import { useWorkflowLibrary } from '../hooks/useWorkflowLibrary';
+import { createRunRecord, priorOutputsOf } from '../utils/run-history';
+import type { RunRecord } from '../types/history';
+import {
+  nodeFactories,
+  withSwitchCases,
+  withErrorPolicy,
+  withPinnedOutput,
+  withoutPinnedOutput,
+  withSubworkflow,
+  ERROR_PORT,
+  type ErrorPolicy,
+  type NodeFactoryType,
+  type SwitchCase,
+} from '../types/nodes';
 import { createNodeId } from '../types/core';
-import { Play, Trash2, CheckCircle2 } from 'lucide-react';
+import type {
+  ConditionNode,
+  FlowNode,
+  NodeId,
+  PartialExecution,
+  WorkflowGraph,
+  WorkflowNode,
+} from '../types/core';
+import {
+  Bug,
+  FlaskConical,
+  Play,
+  Square,
+  Trash2,
+  CheckCircle2,
+} from 'lucide-react';
 import { WorkflowExecutor } from '../engine/executor';
+import { InMemoryWorkflowRepository } from '../engine/workflow-repository';
 import { useToast } from '../hooks/use-toast';
 
+// Stable fallback so the history selector does not return a new array
+const noRuns: ReadonlyArray<RunRecord> = [];
+
 function ClearWorkflowDialog({ onClear }: { onClear: () => void }) {
   return (
     <AlertDialog>
@@ -54,19 +99,52 @@ function ClearWorkflowDialog({ onClear }: { onClear: () => void }) {
 }
 
 export default function Index() {
+  const savedWorkflows = useWorkflowLibrary((state) => state.workflows);
+  const saveWorkflow = useWorkflowLibrary((state) => state.saveWorkflow);
+  const removeWorkflow = useWorkflowLibrary((state) => state.removeWorkflow);
+  const library = useMemo(
+    () => Object.values(savedWorkflows),
+    [savedWorkflows]
+  );
+  // Subworkflow nodes are validated and run against the saved workflows
+  const workflows = useMemo(
+    () => new InMemoryWorkflowRepository(library),
+    [library]
+  );
+
   const {
     graph,
+    setGraph,
     addNode,
     updateNode,
+    removeEdge,
+    renameGraph,
     validateGraph,
     inferTypes,
+    loadGraph,
     clearGraph,
+    newGraph,
     validationErrors,
+    validationWarnings,
     inferredTypes,
-  } = useWorkflowGraph();
+    typeErrors,
+  } = useWorkflowGraph(undefined, workflows);
 
   const { toast } = useToast();
   const [isExecuting, setIsExecuting] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const { nodeRuns, running, track } = useExecutionEvents();
+  const runs = useRunHistory((state) => state.runs[graph.id]) ?? noRuns;
+  const addRun = useRunHistory((state) => state.addRun);
+  const clearRuns = useRunHistory((state) => state.clearRuns);
+  const settledCount = Array.from(nodeRuns.values()).filter(
+    (run) => run.status !== 'running' && run.status !== 'paused'
+  ).length;
+  const { debug, paused, breakpoints } = useDebugger();
+  const pausedNode = graph.nodes.find((n) => n.id === paused?.nodeId);
+  const [selectedNodeId, setSelectedNodeId] = useState<NodeId | null>(null);
+  const selectedNode = graph.nodes.find((n) => n.id === selectedNodeId);
+  const selectedRun = selectedNodeId ? nodeRuns.get(selectedNodeId) : undefined;
 
   const handleNodeSelect = useCallback(
     (nodeType: string) => {
@@ -82,15 +160,7 @@ export default function Index() {
         y: Math.random() * 300 + 100,
       };
 
-      let node;
-      if (nodeType === 'data.constant') {
-        node = factory(nodeId, position, null);
-      } else if (nodeType === 'data.variable') {
-        node = factory(nodeId, position, 'variable');
-      } else {
-        node = factory(nodeId, position);
-      }
-
+      const node = factory(nodeId, position);
       addNode(node);
 
       toast({
@@ -120,50 +190,202 @@ export default function Index() {
     }
   }, [validateGraph, inferTypes, validationErrors.length, toast]);
 
-  const handleExecute = useCallback(async () => {
-    const isValid = validateGraph();
-    if (!isValid) {
-      toast({
-        title: 'Cannot Execute',
-        description: 'Please fix validation errors first',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    setIsExecuting(true);
-    try {
-      const executor = new WorkflowExecutor(graph);
-      const result = await executor.execute({
-        workflowId: graph.id,
-        variables: new Map(),
-        timestamp: Date.now(),
-      });
-
-      if (result.success) {
+  const runWorkflow = useCallback(
+    async ({
+      debugging = false,
+      dryRun = false,
+      partial,
+    }: {
+      debugging?: boolean;
+      dryRun?: boolean;
+      partial?: PartialExecution;
+    }) => {
+      const isValid = validateGraph();
+      if (!isValid) {
         toast({
-          title: 'Execution Successful',
-          description: 'Workflow executed successfully',
+          title: 'Cannot Execute',
+          description: 'Please fix validation errors first',
+          variant: 'destructive',
         });
-        console.log('Execution output:', result.output);
-        console.log('Execution logs:', result.logs);
-      } else {
+        return;
+      }
+      // Unification errors do not stop the run; show them alongside it
+      inferTypes();
+
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setIsExecuting(true);
+      try {
+        // The latest live run feeds nodes upstream of a partial run; dry
+        // runs only hold stubbed outputs
+        const lastLiveRun = runs.find((run) => run.mode === 'live');
+        const executor = new WorkflowExecutor(graph, {
+          workflows,
+          debug: debugging ? debug : undefined,
+          // Without breakpoints, debugging starts paused at the first node
+          stepping: debugging && debug.getBreakpoints().size === 0,
+          priorOutputs: lastLiveRun && priorOutputsOf(lastLiveRun),
+        });
+        track(executor);
+        const context = {
+          workflowId: graph.id,
+          variables: new Map(),
+          timestamp: Date.now(),
+          signal: controller.signal,
+          partial,
+          mode: dryRun ? ('dry-run' as const) : ('live' as const),
+        };
+        const result = await executor.execute(context);
+        addRun(createRunRecord(executor, context, result));
+
+        if (result.success && result.sideEffects) {
+          toast({
+            title: 'Dry Run Complete',
+            description: `${result.sideEffects.length} side effect(s) stubbed; see Run History`,
+          });
+        } else if (result.success) {
+          toast({
+            title: 'Execution Successful',
+            description: 'Workflow executed successfully',
+          });
+          console.log('Execution output:', result.output);
+          console.log('Execution logs:', result.logs);
+        } else {
+          const aborted = result.errors?.some((e) => e.type === 'aborted');
+          toast({
+            title: aborted ? 'Execution Cancelled' : 'Execution Failed',
+            description: result.error.message,
+            variant: 'destructive',
+          });
+        }
+      } catch (error) {
         toast({
-          title: 'Execution Failed',
-          description: result.error.message,
+          title: 'Execution Error',
+          description: error instanceof Error ? error.message : 'Unknown error',
           variant: 'destructive',
         });
+      } finally {
+        abortRef.current = null;
+        setIsExecuting(false);
       }
-    } catch (error) {
-      toast({
-        title: 'Execution Error',
-        description: error instanceof Error ? error.message : 'Unknown error',
-        variant: 'destructive',
-      });
-    } finally {
-      setIsExecuting(false);
-    }
-  }, [graph, validateGraph, toast]);
+    },
+    [
+      graph,
+      workflows,
+      validateGraph,
+      inferTypes,
+      toast,
+      track,
+      addRun,
+      debug,
+      runs,
+    ]
+  );
+
+  const handleExecute = useCallback(() => runWorkflow({}), [runWorkflow]);
+  const handleDebug = useCallback(
+    () => runWorkflow({ debugging: true }),
+    [runWorkflow]
+  );
+  const handleDryRun = useCallback(
+    () => runWorkflow({ dryRun: true }),
+    [runWorkflow]
+  );
+  const handlePartialRun = useCallback(
+    (partial: PartialExecution) => runWorkflow({ partial }),
+    [runWorkflow]
+  );
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort(new Error('Cancelled by user'));
+  }, []);
+
+  const handleSwitchCasesChange = useCallback(
+    (node: ConditionNode, cases: ReadonlyArray<SwitchCase>) => {
+      const updated = withSwitchCases(node, cases);
+      updateNode(node.id, updated);
+
+      // Drop edges that hung off removed case ports
+      const portIds = new Set(updated.outputs.map((p) => p.id));
+      for (const edge of graph.edges) {
+        if (edge.source === node.id && !portIds.has(edge.sourcePort)) {
+          removeEdge(edge.id);
+        }
+      }
+    },
+    [graph.edges, updateNode, removeEdge]
+  );
+
+  const handleSubworkflowChange = useCallback(
+    (node: FlowNode, workflow: WorkflowGraph) => {
+      const updated = withSubworkflow(node, workflow);
+      updateNode(node.id, updated);
+
+      // Drop edges on ports the picked workflow does not have
+      const inputIds = new Set(updated.inputs.map((p) => p.id));
+      const outputIds = new Set(updated.outputs.map((p) => p.id));
+      for (const edge of graph.edges) {
+        if (
+          (edge.target === node.id && !inputIds.has(edge.targetPort)) ||
+          (edge.source === node.id && !outputIds.has(edge.sourcePort))
+        ) {
+          removeEdge(edge.id);
+        }
+      }
+    },
+    [graph.edges, updateNode, removeEdge]
+  );
+
+  const handleErrorPolicyChange = useCallback(
+    (node: WorkflowNode, policy: ErrorPolicy) => {
+      updateNode(node.id, withErrorPolicy(node, policy));
+
+      // Without the error port its edges have nothing to hang off
+      if (policy === 'fail') {
+        for (const edge of graph.edges) {
+          if (edge.source === node.id && edge.sourcePort === ERROR_PORT) {
+            removeEdge(edge.id);
+          }
+        }
+      }
+    },
+    [graph.edges, updateNode, removeEdge]
+  );
+
+  const handlePin = useCallback(
+    (node: WorkflowNode, portId: string, value: unknown) => {
+      updateNode(node.id, withPinnedOutput(node, portId, value));
+    },
+    [updateNode]
+  );
+
+  const handleUnpin = useCallback(
+    (node: WorkflowNode, portId: string) => {
+      updateNode(node.id, withoutPinnedOutput(node, portId));
+    },
+    [updateNode]
+  );
+
+  const handleSave = useCallback(() => {
+    saveWorkflow(graph);
+    toast({
+      title: 'Workflow Saved',
+      description: `Saved ${graph.name} to the library`,
+    });
+  }, [graph, saveWorkflow, toast]);
+
+  const handleOpen = useCallback(
+    (workflow: WorkflowGraph) => {
+      loadGraph(workflow);
+      setSelectedNodeId(null);
+    },
+    [loadGraph]
+  );
+
+  const handleNew = useCallback(() => {
+    newGraph();
+    setSelectedNodeId(null);
+  }, [newGraph]);
 
   const handleClear = useCallback(() => {
     clearGraph();
@@ -211,8 +433,41 @@ export default function Index() {
             className="bg-blue-600 hover:bg-blue-700"
           >
             <Play className="w-4 h-4 mr-2" />
-            {isExecuting ? 'Executing...' : 'Execute'}
+            {isExecuting
+              ? `Executing... (${settledCount}/${graph.nodes.length})`
+              : 'Execute'}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDebug}
+            disabled={isExecuting}
+            className="bg-slate-700 border-slate-600 hover:bg-slate-600"
+          >
+            <Bug className="w-4 h-4 mr-2" />
+            Debug
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDryRun}
+            disabled={isExecuting}
+            className="bg-slate-700 border-slate-600 hover:bg-slate-600"
+          >
+            <FlaskConical className="w-4 h-4 mr-2" />
+            Dry Run
+          </Button>
+          {isExecuting && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleCancel}
+              className="bg-slate-700 border-slate-600 hover:bg-slate-600"
+            >
+              <Square className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+          )}
           <ClearWorkflowDialog onClear={handleClear} />
         </div>
       </header>
@@ -231,21 +486,86 @@ export default function Index() {
             onNodesChange={(nodes) => {
               nodes.forEach((node) => updateNode(node.id, node));
             }}
-            // skipcq JS-0356
-            onEdgesChange={(edges) => {
-              // skipcq JS-0356
-              // Simplified - handle edge updates properly in production
-            }}
+            onNodeClick={(node) => setSelectedNodeId(node.id)}
+            nodeRuns={nodeRuns}
+            running={running}
+            breakpoints={breakpoints}
+            onToggleBreakpoint={(node) => debug.toggleBreakpoint(node.id)}
+            onNodeAdd={addNode}
+            onEdgesChange={(edges) => setGraph((prev) => ({ ...prev, edges }))}
           />
         </main>
 
         {/* Type Inspector */}
         <aside className="w-96 border-l border-slate-700 overflow-y-auto">
+          {paused && (
+            <DebuggerPanel
+              key={`${paused.runId}:${paused.nodeId}`}
+              paused={paused}
+              node={pausedNode}
+              onStep={(inputs) => debug.step(inputs)}
+              onContinue={(inputs) => debug.resume(inputs)}
+              onAbort={() => debug.abort()}
+            />
+          )}
+          {selectedNode?.type === 'logic.switch' && (
+            <SwitchCaseEditor
+              node={selectedNode}
+              onChange={(cases) => handleSwitchCasesChange(selectedNode, cases)}
+            />
+          )}
+          {selectedNode?.type === 'flow.subworkflow' && (
+            <SubworkflowPicker
+              node={selectedNode}
+              workflows={library.filter((w) => w.id !== graph.id)}
+              onChange={(workflow) =>
+                handleSubworkflowChange(selectedNode, workflow)
+              }
+            />
+          )}
+          {selectedNode && (
+            <PartialRunActions
+              node={selectedNode}
+              disabled={isExecuting}
+              onRun={handlePartialRun}
+            />
+          )}
+          {selectedNode && selectedRun && (
+            <NodeRunDetails node={selectedNode} run={selectedRun} />
+          )}
+          {selectedNode && selectedNode.outputs.length > 0 && (
+            <PinnedOutputsEditor
+              key={selectedNode.id}
+              node={selectedNode}
+              lastOutputs={selectedRun?.outputs}
+              onPin={(portId, value) => handlePin(selectedNode, portId, value)}
+              onUnpin={(portId) => handleUnpin(selectedNode, portId)}
+            />
+          )}
+          {selectedNode && (
+            <ErrorPolicyEditor
+              node={selectedNode}
+              onChange={(policy) =>
+                handleErrorPolicyChange(selectedNode, policy)
+              }
+            />
+          )}
+          <WorkflowLibraryPanel
+            graph={graph}
+            workflows={library}
+            onRename={renameGraph}
+            onSave={handleSave}
+            onNew={handleNew}
+            onOpen={handleOpen}
+            onRemove={removeWorkflow}
+          />
           <TypeInspector
             graph={graph}
-            validationErrors={validationErrors}
+            validationErrors={[...validationErrors, ...typeErrors]}
+            validationWarnings={validationWarnings}
             inferredTypes={inferredTypes}
           />
+          <RunHistoryPanel runs={runs} onClear={() => clearRuns(graph.id)} />
         </aside>
       </div>
     </div>
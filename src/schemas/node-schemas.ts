@@ -4,23 +4,65 @@
  */
 
 import { z } from 'zod';
-import type { WorkflowNode } from '../types/core';
-
-// Port type schema
-const portTypeSchema = z.discriminatedUnion('kind', [
-  z.object({ kind: z.literal('any'), type: z.unknown() }),
-  z.object({ kind: z.literal('string'), type: z.string() }),
-  z.object({ kind: z.literal('number'), type: z.number() }),
-  z.object({ kind: z.literal('boolean'), type: z.boolean() }),
-  z.object({ kind: z.literal('object'), type: z.record(z.unknown()) }),
-  z.object({ kind: z.literal('array'), type: z.array(z.unknown()) }),
-  z.object({ kind: z.literal('void'), type: z.void() }),
-  z.object({
-    kind: z.literal('custom'),
-    type: z.unknown(),
-    typeName: z.string(),
-  }),
-]);
+import type { PortType, WorkflowNode } from '../types/core';
+import { globalTypeRegistry } from '../types/type-registry';
+
+// Port type schema, recursive through the structural kinds. Typed by hand:
+// zod infers `z.unknown()` keys as optional, which PortType's are not.
+const portTypeSchema: z.ZodType<PortType> = z.lazy(
+  () =>
+    z.discriminatedUnion('kind', [
+      z.object({ kind: z.literal('any'), type: z.unknown() }),
+      z.object({ kind: z.literal('string'), type: z.string() }),
+      z.object({ kind: z.literal('number'), type: z.number() }),
+      z.object({ kind: z.literal('boolean'), type: z.boolean() }),
+      z.object({
+        kind: z.literal('object'),
+        type: z.record(z.unknown()),
+        fields: z.record(objectFieldSchema).optional(),
+      }),
+      z.object({
+        kind: z.literal('array'),
+        type: z.array(z.unknown()),
+        element: portTypeSchema.optional(),
+      }),
+      z.object({
+        kind: z.literal('tuple'),
+        type: z.array(z.unknown()),
+        elements: z.array(portTypeSchema),
+      }),
+      z.object({
+        kind: z.literal('union'),
+        type: z.unknown(),
+        members: z.array(portTypeSchema),
+      }),
+      z.object({
+        kind: z.literal('literal'),
+        type: z.union([z.string(), z.number(), z.boolean(), z.null()]),
+      }),
+      z.object({
+        kind: z.literal('nullable'),
+        type: z.unknown(),
+        inner: portTypeSchema,
+      }),
+      z.object({ kind: z.literal('void'), type: z.void() }),
+      z.object({
+        kind: z.literal('custom'),
+        type: z.unknown(),
+        typeName: z.string(),
+      }),
+      z.object({
+        kind: z.literal('var'),
+        type: z.undefined(),
+        name: z.string(),
+      }),
+    ]) as z.ZodType<PortType>
+);
+
+const objectFieldSchema = z.object({
+  type: portTypeSchema,
+  optional: z.boolean().optional(),
+});
 
 // Port schema
 const portSchema = z.object({
@@ -32,11 +74,83 @@ const portSchema = z.object({
   direction: z.enum(['input', 'output']),
 });
 
+// Values of a named type pass its schema, else its definition or supertype;
+// unregistered names accept any value
+const namedValueSchema = (typeName: string): z.ZodTypeAny => {
+  const type = globalTypeRegistry.get(typeName);
+  if (type?.schema) {
+    return type.schema;
+  }
+  const shape = type?.definition ?? type?.supertype;
+  return shape ? portValueSchema(shape) : z.unknown();
+};
+
+/**
+ * Schema for the values a port of `portType` carries. Objects may carry
+ * extra fields; type variables accept any value.
+ */
+export const portValueSchema = (portType: PortType): z.ZodTypeAny => {
+  const kind = portType.kind;
+  switch (kind) {
+    case 'any':
+    case 'var':
+      return z.unknown();
+    case 'custom':
+      // Resolved per check, so types registered later are honoured
+      return z.lazy(() => namedValueSchema(portType.typeName));
+    case 'string':
+      return z.string();
+    case 'number':
+      return z.number();
+    case 'boolean':
+      return z.boolean();
+    case 'void':
+      return z.undefined();
+    case 'object': {
+      if (!portType.fields) {
+        return z.record(z.unknown());
+      }
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const [name, field] of Object.entries(portType.fields)) {
+        const schema = portValueSchema(field.type);
+        shape[name] = field.optional ? schema.optional() : schema;
+      }
+      return z.object(shape).passthrough();
+    }
+    case 'array':
+      return z.array(
+        portType.element ? portValueSchema(portType.element) : z.unknown()
+      );
+    case 'tuple':
+      return z.tuple(
+        portType.elements.map(portValueSchema) as [
+          z.ZodTypeAny,
+          ...z.ZodTypeAny[],
+        ]
+      );
+    case 'union': {
+      const [first, second, ...rest] = portType.members.map(portValueSchema);
+      if (!first) {
+        return z.never();
+      }
+      return second ? z.union([first, second, ...rest]) : first;
+    }
+    case 'literal':
+      return portType.type === null ? z.null() : z.literal(portType.type);
+    case 'nullable':
+      return portValueSchema(portType.inner).nullable();
+    default: {
+      const _exhaustive: never = kind;
+      throw new Error(`Unknown port kind: ${_exhaustive}`);
+    }
+  }
+};
+
 // Base node schema
 const baseNodeSchema = z.object({
   id: z.string(),
   type: z.string(),
-  category: z.enum(['trigger', 'logic', 'transform', 'effect', 'data']),
+  category: z.enum(['trigger', 'logic', 'transform', 'effect', 'data', 'flow']),
   label: z.string(),
   description: z.string().optional(),
   inputs: z.array(portSchema),
@@ -60,16 +174,58 @@ const conditionNodeSchema = baseNodeSchema.extend({
   category: z.literal('logic'),
 });
 
+// Loop node schema
+const loopNodeSchema = baseNodeSchema.extend({
+  type: z.literal('logic.forEach'),
+  category: z.literal('logic'),
+});
+
 // Transform node schema
 const transformNodeSchema = baseNodeSchema.extend({
-  type: z.enum(['transform.map', 'transform.filter', 'transform.reduce']),
+  type: z.enum([
+    'transform.map',
+    'transform.filter',
+    'transform.reduce',
+    'transform.toString',
+    'transform.parseNumber',
+    'transform.wrapInArray',
+    'transform.pickField',
+  ]),
   category: z.literal('transform'),
 });
 
+// Retry backoff: a constant delay, or one growing per attempt up to a cap
+const retryBackoffSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('fixed'), delayMs: z.number().nonnegative() }),
+  z.object({
+    kind: z.literal('exponential'),
+    initialDelayMs: z.number().nonnegative(),
+    multiplier: z.number().min(1).default(2),
+    maxDelayMs: z.number().nonnegative().optional(),
+  }),
+]);
+
+// Retry policy stored in `node.data.retry`. `jitter` randomises each delay by
+// up to that fraction; `retryOn` lists retryable error class names.
+export const retryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1),
+  backoff: retryBackoffSchema.default({ kind: 'fixed', delayMs: 0 }),
+  jitter: z.number().min(0).max(1).default(0),
+  retryOn: z.array(z.string()).optional(),
+});
+
+export type RetryBackoff = z.infer<typeof retryBackoffSchema>;
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
+export type RetryPolicyInput = z.input<typeof retryPolicySchema>;
+
 // Effect node schema
 const effectNodeSchema = baseNodeSchema.extend({
   type: z.enum(['effect.http', 'effect.email', 'effect.db']),
   category: z.literal('effect'),
+  data: z
+    .object({ retry: retryPolicySchema.optional() })
+    .catchall(z.unknown())
+    .optional(),
 });
 
 // Data node schema
@@ -78,13 +234,22 @@ const dataNodeSchema = baseNodeSchema.extend({
   category: z.literal('data'),
 });
 
-// Discriminated union for all node types
-export const workflowNodeSchema = z.discriminatedUnion('category', [
+// Flow node schema
+const flowNodeSchema = baseNodeSchema.extend({
+  type: z.enum(['flow.subworkflow']),
+  category: z.literal('flow'),
+});
+
+// Discriminated union for all node types; condition and loop nodes share
+// the logic category, so the node type tells them apart
+export const workflowNodeSchema = z.discriminatedUnion('type', [
   triggerNodeSchema,
   conditionNodeSchema,
+  loopNodeSchema,
   transformNodeSchema,
   effectNodeSchema,
   dataNodeSchema,
+  flowNodeSchema,
 ]);
 
 // Infer TypeScript type from schema
@@ -125,14 +290,20 @@ export const nodeSchemaRegistry = {
   'logic.if': conditionNodeSchema,
   'logic.switch': conditionNodeSchema,
   'logic.compare': conditionNodeSchema,
+  'logic.forEach': loopNodeSchema,
   'transform.map': transformNodeSchema,
   'transform.filter': transformNodeSchema,
   'transform.reduce': transformNodeSchema,
+  'transform.toString': transformNodeSchema,
+  'transform.parseNumber': transformNodeSchema,
+  'transform.wrapInArray': transformNodeSchema,
+  'transform.pickField': transformNodeSchema,
   'effect.http': effectNodeSchema,
   'effect.email': effectNodeSchema,
   'effect.db': effectNodeSchema,
   'data.constant': dataNodeSchema,
   'data.variable': dataNodeSchema,
+  'flow.subworkflow': flowNodeSchema,
 } as const;
 
 // Type-safe schema lookup
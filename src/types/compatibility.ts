@@ -4,6 +4,8 @@
  */
 
 import type { PortType, InputPort, OutputPort, WorkflowNode } from './core';
+import { arrayOf, baseKind, formatPortType } from './port-types';
+import { globalTypeRegistry } from './type-registry';
 
 // Type-level compatibility checking
 export type IsCompatible<
@@ -48,50 +50,216 @@ export interface ConnectionValidation {
   readonly sourceType: string;
   readonly targetType: string;
   readonly errorMessage?: string;
+  // Field path of the first mismatch, e.g. `user.tags[]`; empty at the root
+  readonly path?: string;
 }
 
+// Where a source type first fails to fit a target type
+interface TypeMismatch {
+  readonly path: string;
+  readonly message: string;
+}
+
+const fieldPath = (path: string, field: string): string =>
+  path ? `${path}.${field}` : field;
+
+const cannotConnect = (
+  source: PortType,
+  target: PortType,
+  path: string
+): TypeMismatch => ({
+  path,
+  message: `cannot connect ${formatPortType(source)} to ${formatPortType(target)}`,
+});
+
+const acceptsNull = (target: PortType): boolean =>
+  target.kind === 'any' ||
+  target.kind === 'nullable' ||
+  (target.kind === 'literal' && target.type === null) ||
+  (target.kind === 'union' && target.members.some(acceptsNull));
+
+/**
+ * Structural subtyping: every value of `source` must be a value of
+ * `target`. Objects may carry extra fields, and shapes left unknown (an
+ * object without fields, an array without element type) are only checked
+ * at runtime.
+ */
+const findMismatch = (
+  source: PortType,
+  target: PortType,
+  path: string
+): TypeMismatch | undefined => {
+  if (source.kind === 'any' || target.kind === 'any') {
+    return undefined;
+  }
+  // Type variables are bound by TypeInferenceEngine; unbound ones fit all
+  if (source.kind === 'var' || target.kind === 'var') {
+    return undefined;
+  }
+  if (source.kind === 'union') {
+    for (const member of source.members) {
+      const mismatch = findMismatch(member, target, path);
+      if (mismatch) {
+        return mismatch;
+      }
+    }
+    return undefined;
+  }
+  if (source.kind === 'nullable') {
+    if (!acceptsNull(target)) {
+      return { path, message: `${formatPortType(source)} may be null` };
+    }
+    return findMismatch(source.inner, target, path);
+  }
+  // A named type fits wherever its supertype or definition does, e.g.
+  // EmailAddress wherever a string does
+  if (
+    source.kind === 'custom' &&
+    !(target.kind === 'custom' && target.typeName === source.typeName) &&
+    globalTypeRegistry
+      .parentsOf(source.typeName)
+      .some((parent) => !findMismatch(parent, target, path))
+  ) {
+    return undefined;
+  }
+
+  switch (target.kind) {
+    case 'union':
+      return target.members.some(
+        (member) => !findMismatch(source, member, path)
+      )
+        ? undefined
+        : cannotConnect(source, target, path);
+    case 'nullable':
+      return source.kind === 'literal' && source.type === null
+        ? undefined
+        : findMismatch(source, target.inner, path);
+    case 'literal':
+      return source.kind === 'literal' && source.type === target.type
+        ? undefined
+        : cannotConnect(source, target, path);
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return source.kind === target.kind ||
+        (source.kind === 'literal' && typeof source.type === target.kind)
+        ? undefined
+        : cannotConnect(source, target, path);
+    case 'void':
+      return source.kind === 'void'
+        ? undefined
+        : cannotConnect(source, target, path);
+    case 'custom':
+      return source.kind === 'custom' && source.typeName === target.typeName
+        ? undefined
+        : cannotConnect(source, target, path);
+    case 'object': {
+      if (source.kind !== 'object') {
+        return cannotConnect(source, target, path);
+      }
+      if (!source.fields || !target.fields) {
+        return undefined;
+      }
+      for (const [name, field] of Object.entries(target.fields)) {
+        const sourceField = Object.hasOwn(source.fields, name)
+          ? source.fields[name]
+          : undefined;
+        if (!sourceField) {
+          if (field.optional) {
+            continue;
+          }
+          return {
+            path: fieldPath(path, name),
+            message: `missing required field of type ${formatPortType(field.type)}`,
+          };
+        }
+        if (sourceField.optional && !field.optional) {
+          return {
+            path: fieldPath(path, name),
+            message: 'field is optional but required here',
+          };
+        }
+        const mismatch = findMismatch(
+          sourceField.type,
+          field.type,
+          fieldPath(path, name)
+        );
+        if (mismatch) {
+          return mismatch;
+        }
+      }
+      return undefined;
+    }
+    case 'array': {
+      if (source.kind === 'tuple') {
+        const element = target.element;
+        if (!element) {
+          return undefined;
+        }
+        for (const [index, type] of source.elements.entries()) {
+          const mismatch = findMismatch(type, element, `${path}[${index}]`);
+          if (mismatch) {
+            return mismatch;
+          }
+        }
+        return undefined;
+      }
+      if (source.kind !== 'array') {
+        return cannotConnect(source, target, path);
+      }
+      return source.element && target.element
+        ? findMismatch(source.element, target.element, `${path}[]`)
+        : undefined;
+    }
+    case 'tuple': {
+      if (source.kind !== 'tuple') {
+        return cannotConnect(source, target, path);
+      }
+      if (source.elements.length !== target.elements.length) {
+        return {
+          path,
+          message: `expected ${target.elements.length} elements, got ${source.elements.length}`,
+        };
+      }
+      for (const [index, type] of target.elements.entries()) {
+        const mismatch = findMismatch(
+          source.elements[index],
+          type,
+          `${path}[${index}]`
+        );
+        if (mismatch) {
+          return mismatch;
+        }
+      }
+      return undefined;
+    }
+    default: {
+      const _exhaustive: never = target;
+      throw new Error(`Unknown port type: ${JSON.stringify(_exhaustive)}`);
+    }
+  }
+};
+
 // Runtime compatibility checker
 export const checkPortCompatibility = (
   sourcePort: PortType,
   targetPort: PortType
 ): ConnectionValidation => {
-  // Any type is compatible with everything
-  if (sourcePort.kind === 'any' || targetPort.kind === 'any') {
-    return {
-      valid: true,
-      sourceType: sourcePort.kind,
-      targetType: targetPort.kind,
-    };
-  }
+  const sourceType = formatPortType(sourcePort);
+  const targetType = formatPortType(targetPort);
+  const mismatch = findMismatch(sourcePort, targetPort, '');
 
-  // Exact kind match
-  if (sourcePort.kind === targetPort.kind) {
-    return {
-      valid: true,
-      sourceType: sourcePort.kind,
-      targetType: targetPort.kind,
-    };
+  if (!mismatch) {
+    return { valid: true, sourceType, targetType };
   }
-
-  // Custom type compatibility (by name)
-  if (sourcePort.kind === 'custom' && targetPort.kind === 'custom') {
-    const sourceCustom = sourcePort as Extract<PortType, { kind: 'custom' }>;
-    const targetCustom = targetPort as Extract<PortType, { kind: 'custom' }>;
-
-    if (sourceCustom.typeName === targetCustom.typeName) {
-      return {
-        valid: true,
-        sourceType: sourceCustom.typeName,
-        targetType: targetCustom.typeName,
-      };
-    }
-  }
-
   return {
     valid: false,
-    sourceType: sourcePort.kind,
-    targetType: targetPort.kind,
-    errorMessage: `Type mismatch: cannot connect ${sourcePort.kind} to ${targetPort.kind}`,
+    sourceType,
+    targetType,
+    path: mismatch.path,
+    errorMessage: mismatch.path
+      ? `Type mismatch at ${mismatch.path}: ${mismatch.message}`
+      : `Type mismatch: ${mismatch.message}`,
   };
 };
 
@@ -102,7 +270,10 @@ export type CompatibilityMatrix = {
   };
 };
 
-// Compile-time compatibility matrix
+// Compile-time compatibility matrix. Kinds are a coarse view: true means
+// some types of the two kinds connect; checkPortCompatibility decides per
+// type, e.g. by field, member or type name. Kinds that only connect through
+// a conversion are in coercionTable
 export const compatibilityMatrix: CompatibilityMatrix = {
   any: {
     any: true,
@@ -111,8 +282,13 @@ export const compatibilityMatrix: CompatibilityMatrix = {
     boolean: true,
     object: true,
     array: true,
+    tuple: true,
+    union: true,
+    literal: true,
+    nullable: true,
     void: true,
     custom: true,
+    var: true,
   },
   string: {
     any: true,
@@ -121,8 +297,13 @@ export const compatibilityMatrix: CompatibilityMatrix = {
     boolean: false,
     object: false,
     array: false,
+    tuple: false,
+    union: true,
+    literal: false,
+    nullable: true,
     void: false,
     custom: false,
+    var: true,
   },
   number: {
     any: true,
@@ -131,8 +312,13 @@ export const compatibilityMatrix: CompatibilityMatrix = {
     boolean: false,
     object: false,
     array: false,
+    tuple: false,
+    union: true,
+    literal: false,
+    nullable: true,
     void: false,
     custom: false,
+    var: true,
   },
   boolean: {
     any: true,
@@ -141,8 +327,13 @@ export const compatibilityMatrix: CompatibilityMatrix = {
     boolean: true,
     object: false,
     array: false,
+    tuple: false,
+    union: true,
+    literal: false,
+    nullable: true,
     void: false,
     custom: false,
+    var: true,
   },
   object: {
     any: true,
@@ -151,8 +342,13 @@ export const compatibilityMatrix: CompatibilityMatrix = {
     boolean: false,
     object: true,
     array: false,
+    tuple: false,
+    union: true,
+    literal: false,
+    nullable: true,
     void: false,
     custom: false,
+    var: true,
   },
   array: {
     any: true,
@@ -161,28 +357,120 @@ export const compatibilityMatrix: CompatibilityMatrix = {
     boolean: false,
     object: false,
     array: true,
+    tuple: false,
+    union: true,
+    literal: false,
+    nullable: true,
     void: false,
     custom: false,
+    var: true,
   },
-  void: {
+  tuple: {
     any: true,
     string: false,
     number: false,
     boolean: false,
     object: false,
-    array: false,
+    array: true,
+    tuple: true,
+    union: true,
+    literal: false,
+    nullable: true,
+    void: false,
+    custom: false,
+    var: true,
+  },
+  union: {
+    any: true,
+    string: true,
+    number: true,
+    boolean: true,
+    object: true,
+    array: true,
+    tuple: true,
+    union: true,
+    literal: true,
+    nullable: true,
     void: true,
+    custom: true,
+    var: true,
+  },
+  literal: {
+    any: true,
+    string: true,
+    number: true,
+    boolean: true,
+    object: false,
+    array: false,
+    tuple: false,
+    union: true,
+    literal: true,
+    nullable: true,
+    void: false,
     custom: false,
+    var: true,
   },
-  custom: {
+  nullable: {
     any: true,
     string: false,
     number: false,
     boolean: false,
     object: false,
     array: false,
+    tuple: false,
+    union: true,
+    literal: false,
+    nullable: true,
     void: false,
-    custom: true, // Requires name check
+    custom: false,
+    var: true,
+  },
+  void: {
+    any: true,
+    string: false,
+    number: false,
+    boolean: false,
+    object: false,
+    array: false,
+    tuple: false,
+    union: true,
+    literal: false,
+    nullable: false,
+    void: true,
+    custom: false,
+    var: true,
+  },
+  // Named types connect wherever their supertype does
+  custom: {
+    any: true,
+    string: true,
+    number: true,
+    boolean: true,
+    object: true,
+    array: true,
+    tuple: true,
+    union: true,
+    literal: true,
+    nullable: true,
+    void: false,
+    custom: true,
+    var: true,
+  },
+  // Type variables may be bound to any type
+  var: {
+    any: true,
+    string: true,
+    number: true,
+    boolean: true,
+    object: true,
+    array: true,
+    tuple: true,
+    union: true,
+    literal: true,
+    nullable: true,
+    void: true,
+    custom: true,
+    var: true,
   },
 } as const;
 
@@ -225,6 +513,113 @@ export const getCompatibleInputTypes = (
   ).filter((targetType) => compatibilityMatrix[outputType][targetType]);
 };
 
+// How much a value changes when an edge converts it: safe conversions keep
+// all information, lossy ones may drop or fail on some values, and
+// forbidden ones need an explicit converter node, if any
+export type CoercionLevel = 'safe' | 'lossy' | 'forbidden';
+
+// Converter nodes that perform coercions; see createConverterNode
+export const converterKinds = [
+  'toString',
+  'parseNumber',
+  'wrapInArray',
+  'pickField',
+] as const;
+export type ConverterKind = (typeof converterKinds)[number];
+
+// Safe and lossy coercions happen on the edge itself; a forbidden one may
+// still name the converter that would make the connection fit
+export type Coercion =
+  | { readonly level: 'safe' | 'lossy'; readonly converter: ConverterKind }
+  | { readonly level: 'forbidden'; readonly converter?: ConverterKind };
+
+type CoercibleKind = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+const isCoercibleKind = (kind: string | undefined): kind is CoercibleKind =>
+  kind === 'string' ||
+  kind === 'number' ||
+  kind === 'boolean' ||
+  kind === 'object' ||
+  kind === 'array';
+
+// Coercions between base kinds that do not connect as they are; pairs left
+// out are forbidden
+export const coercionTable: {
+  readonly [SourceKind in CoercibleKind]: {
+    readonly [TargetKind in CoercibleKind]?: Coercion;
+  };
+} = {
+  string: {
+    number: { level: 'lossy', converter: 'parseNumber' },
+    array: { level: 'safe', converter: 'wrapInArray' },
+  },
+  number: {
+    string: { level: 'safe', converter: 'toString' },
+    array: { level: 'safe', converter: 'wrapInArray' },
+  },
+  boolean: {
+    string: { level: 'safe', converter: 'toString' },
+    array: { level: 'safe', converter: 'wrapInArray' },
+  },
+  object: {
+    string: { level: 'lossy', converter: 'toString' },
+    number: { level: 'forbidden', converter: 'pickField' },
+    boolean: { level: 'forbidden', converter: 'pickField' },
+    array: { level: 'safe', converter: 'wrapInArray' },
+  },
+  array: {
+    string: { level: 'lossy', converter: 'toString' },
+  },
+};
+
+/**
+ * The type a converter turns values of `source` into
+ */
+export const coercedType = (
+  converter: ConverterKind,
+  source: PortType
+): PortType => {
+  switch (converter) {
+    case 'toString':
+      return { kind: 'string', type: '' };
+    case 'parseNumber':
+      return { kind: 'number', type: 0 };
+    case 'wrapInArray':
+      return arrayOf(source);
+    case 'pickField':
+      return { kind: 'any', type: undefined };
+  }
+};
+
+/**
+ * How a connection from `source` to `target` coerces its values; undefined
+ * when the types connect as they are
+ */
+export const getCoercion = (
+  source: PortType,
+  target: PortType
+): Coercion | undefined => {
+  if (!findMismatch(source, target, '')) {
+    return undefined;
+  }
+  const sourceKind = baseKind(source);
+  const targetKind = baseKind(target);
+  const coercion =
+    isCoercibleKind(sourceKind) && isCoercibleKind(targetKind)
+      ? coercionTable[sourceKind][targetKind]
+      : undefined;
+  if (!coercion) {
+    return { level: 'forbidden' };
+  }
+
+  // Base kinds only pick the converter; its result must fit the whole
+  // target, e.g. a wrapped number does not fit array<string>
+  return coercion.converter &&
+    findMismatch(coercedType(coercion.converter, source), target, '')
+    ? { level: 'forbidden' }
+    : coercion;
+};
+
 // Variadic tuple type for multiple connections
 export type ConnectionChain<Nodes extends readonly WorkflowNode[]> = {
   [K in keyof Nodes]: Nodes[K] extends WorkflowNode ? Nodes[K] : never;
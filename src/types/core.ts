@@ -3,26 +3,57 @@
  * Demonstrates: Discriminated Unions, Generics, Branded Types, Readonly
  */
 
+import type {
+  ExecutionError,
+  IntendedSideEffect,
+  TypeViolation,
+} from './execution';
+
 // Branded type for unique identification
 export type NodeId = string & { readonly __brand: 'NodeId' };
 export type EdgeId = string & { readonly __brand: 'EdgeId' };
 export type WorkflowId = string & { readonly __brand: 'WorkflowId' };
+export type RunId = string & { readonly __brand: 'RunId' };
 
 // Helper to create branded types
 export const createNodeId = (id: string): NodeId => id as NodeId;
 export const createEdgeId = (id: string): EdgeId => id as EdgeId;
 export const createWorkflowId = (id: string): WorkflowId => id as WorkflowId;
+export const createRunId = (id: string): RunId => id as RunId;
 
-// Base port types for type-safe connections
+// Port types for type-safe connections. `type` carries a sample value; the
+// structural kinds also describe their shape, recursively.
 export type PortType =
   | { kind: 'any'; type: unknown }
   | { kind: 'string'; type: string }
   | { kind: 'number'; type: number }
   | { kind: 'boolean'; type: boolean }
-  | { kind: 'object'; type: Record<string, unknown> }
-  | { kind: 'array'; type: unknown[] }
+  // Without `fields` the shape is unknown and any object is accepted
+  | {
+      kind: 'object';
+      type: Record<string, unknown>;
+      fields?: Readonly<Record<string, ObjectField>>;
+    }
+  // Without `element` the element type is inferred from the sample
+  | { kind: 'array'; type: unknown[]; element?: PortType }
+  | { kind: 'tuple'; type: unknown[]; elements: ReadonlyArray<PortType> }
+  | { kind: 'union'; type: unknown; members: ReadonlyArray<PortType> }
+  // The sample is the only value of the type
+  | { kind: 'literal'; type: LiteralValue }
+  // The inner type or null
+  | { kind: 'nullable'; type: unknown; inner: PortType }
   | { kind: 'void'; type: undefined }
-  | { kind: 'custom'; type: unknown; typeName: string };
+  | { kind: 'custom'; type: unknown; typeName: string }
+  // A type variable, scoped to the node declaring it and bound by inference
+  // from the types arriving on its inputs
+  | { kind: 'var'; type: undefined; name: string };
+
+export type LiteralValue = string | number | boolean | null;
+
+export interface ObjectField {
+  readonly type: PortType;
+  readonly optional?: boolean;
+}
 
 // Port definition
 export interface Port {
@@ -43,7 +74,8 @@ export type NodeCategory =
   | 'logic'
   | 'transform'
   | 'effect'
-  | 'data';
+  | 'data'
+  | 'flow';
 
 // Base node interface
 export interface BaseNode {
@@ -62,9 +94,11 @@ export interface BaseNode {
 export type WorkflowNode =
   | TriggerNode
   | ConditionNode
+  | LoopNode
   | TransformNode
   | EffectNode
-  | DataNode;
+  | DataNode
+  | FlowNode;
 
 // Trigger nodes (no inputs, only outputs)
 export interface TriggerNode extends BaseNode {
@@ -78,9 +112,22 @@ export interface ConditionNode extends BaseNode {
   readonly category: 'logic';
 }
 
+// Loop nodes (run an embedded body graph per element)
+export interface LoopNode extends BaseNode {
+  readonly type: 'logic.forEach';
+  readonly category: 'logic';
+}
+
 // Transform nodes (data in, data out)
 export interface TransformNode extends BaseNode {
-  readonly type: 'transform.map' | 'transform.filter' | 'transform.reduce';
+  readonly type:
+    | 'transform.map'
+    | 'transform.filter'
+    | 'transform.reduce'
+    | 'transform.toString'
+    | 'transform.parseNumber'
+    | 'transform.wrapInArray'
+    | 'transform.pickField';
   readonly category: 'transform';
 }
 
@@ -96,6 +143,12 @@ export interface DataNode extends BaseNode {
   readonly category: 'data';
 }
 
+// Flow nodes (composition of other workflows)
+export interface FlowNode extends BaseNode {
+  readonly type: 'flow.subworkflow';
+  readonly category: 'flow';
+}
+
 // Edge connection between nodes
 export interface Edge {
   readonly id: EdgeId;
@@ -138,6 +191,50 @@ export interface ExecutionContext {
   readonly workflowId: WorkflowId;
   readonly variables: ReadonlyMap<string, unknown>;
   readonly timestamp: number;
+  // Nodes allowed in flight at once; independent branches overlap when > 1
+  readonly maxConcurrency?: number;
+  // Aborting the signal stops the run and interrupts running nodes
+  readonly signal?: AbortSignal;
+  // Limit for the whole run, and the default limit per node
+  readonly timeoutMs?: number;
+  readonly nodeTimeoutMs?: number;
+  // Run only part of the graph around one node
+  readonly partial?: PartialExecution;
+  // `dry-run` stubs effect nodes and reports what they would have done
+  readonly mode?: ExecutionMode;
+  // Caps shared by the run and all of its nested runs
+  readonly budget?: ExecutionBudget;
+  // How values crossing edges are checked against their target port type;
+  // defaults to `lenient`
+  readonly typeCheck?: TypeCheckMode;
+}
+
+// Unset limits are unbounded; hitting one fails the run
+export interface ExecutionBudget {
+  // Node executions across the run and its nested runs
+  readonly maxNodeExecutions?: number;
+  // Iterations of any one loop node
+  readonly maxLoopIterations?: number;
+  // Nesting of subworkflows and loop bodies below the top-level run
+  readonly maxSubworkflowDepth?: number;
+  // Total size of node outputs, measured as UTF-8 JSON
+  readonly maxOutputBytes?: number;
+  readonly maxWallTimeMs?: number;
+}
+
+export type BudgetLimit = keyof ExecutionBudget;
+
+export type ExecutionMode = 'live' | 'dry-run';
+
+// `strict` fails the node a mismatching value arrives at, `lenient` logs it
+// and runs the node anyway
+export type TypeCheckMode = 'strict' | 'lenient' | 'off';
+
+// `to` runs the node and everything it depends on; `from` runs the node and
+// everything downstream of it, taking its other inputs from earlier outputs
+export interface PartialExecution {
+  readonly mode: 'to' | 'from';
+  readonly nodeId: NodeId;
 }
 
 // Execution result
@@ -146,11 +243,18 @@ export type ExecutionResult<T = unknown> =
       readonly success: true;
       readonly output: T;
       readonly logs: ReadonlyArray<string>;
+      // Present for dry runs
+      readonly sideEffects?: ReadonlyArray<IntendedSideEffect>;
+      // Present when values did not match their port types
+      readonly typeViolations?: ReadonlyArray<TypeViolation>;
     }
   | {
       readonly success: false;
       readonly error: Error;
+      readonly errors?: ReadonlyArray<ExecutionError>;
       readonly logs: ReadonlyArray<string>;
+      readonly sideEffects?: ReadonlyArray<IntendedSideEffect>;
+      readonly typeViolations?: ReadonlyArray<TypeViolation>;
     };
 
 // Type guards for node types
@@ -158,7 +262,10 @@ export const isTriggerNode = (node: WorkflowNode): node is TriggerNode =>
   node.category === 'trigger';
 
 export const isConditionNode = (node: WorkflowNode): node is ConditionNode =>
-  node.category === 'logic';
+  node.category === 'logic' && node.type !== 'logic.forEach';
+
+export const isLoopNode = (node: WorkflowNode): node is LoopNode =>
+  node.type === 'logic.forEach';
 
 export const isTransformNode = (node: WorkflowNode): node is TransformNode =>
   node.category === 'transform';
@@ -169,6 +276,9 @@ export const isEffectNode = (node: WorkflowNode): node is EffectNode =>
 export const isDataNode = (node: WorkflowNode): node is DataNode =>
   node.category === 'data';
 
+export const isFlowNode = (node: WorkflowNode): node is FlowNode =>
+  node.category === 'flow';
+
 // Readonly deep utility type
 export type DeepReadonly<T> = {
   readonly [P in keyof T]: T[P] extends object ? DeepReadonly<T[P]> : T[P];
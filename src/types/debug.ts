@@ -0,0 +1,29 @@
+/**
+ * Debugger Types - Pausing a run before nodes execute
+ * Demonstrates: Discriminated Unions, Command Pattern
+ */
+
+import type { NodeId, RunId } from './core';
+import type { NodeInputs } from './execution';
+
+// A node held before it executes, with the inputs it is about to receive
+export interface PausedNode {
+  readonly runId: RunId;
+  readonly nodeId: NodeId;
+  readonly inputs: NodeInputs;
+  readonly reason: 'breakpoint' | 'step';
+}
+
+// How a paused node proceeds; `inputs` replaces the gathered inputs
+export type DebugCommand =
+  | { readonly type: 'step'; readonly inputs?: NodeInputs }
+  | { readonly type: 'continue'; readonly inputs?: NodeInputs }
+  | { readonly type: 'abort' };
+
+export type DebuggerEvent =
+  | { readonly type: 'paused'; readonly paused: PausedNode }
+  | { readonly type: 'resumed'; readonly nodeId: NodeId }
+  | {
+      readonly type: 'breakpoints-changed';
+      readonly breakpoints: ReadonlySet<NodeId>;
+    };
@@ -0,0 +1,117 @@
+/**
+ * Execution Event Types - Live progress emitted while a run executes
+ * Demonstrates: Discriminated Unions, Mapped Types, Distributive Conditionals
+ */
+
+import type { NodeId, RunId, WorkflowId } from './core';
+import type { NodeInputs, NodeOutputs, TypeViolation } from './execution';
+
+export type ExecutionEvent =
+  | {
+      readonly type: 'run-started';
+      readonly runId: RunId;
+      readonly timestamp: number;
+      readonly workflowId: WorkflowId;
+    }
+  | {
+      readonly type: 'node-started';
+      readonly runId: RunId;
+      readonly timestamp: number;
+      readonly nodeId: NodeId;
+      readonly inputs: NodeInputs;
+    }
+  | {
+      // Held by the debugger before executing
+      readonly type: 'node-paused';
+      readonly runId: RunId;
+      readonly timestamp: number;
+      readonly nodeId: NodeId;
+      readonly inputs: NodeInputs;
+    }
+  | {
+      readonly type: 'node-succeeded';
+      readonly runId: RunId;
+      readonly timestamp: number;
+      readonly nodeId: NodeId;
+      readonly outputs: NodeOutputs;
+      readonly durationMs: number;
+      // The outputs were pinned rather than produced by running the node
+      readonly pinned?: boolean;
+    }
+  | {
+      readonly type: 'node-failed';
+      readonly runId: RunId;
+      readonly timestamp: number;
+      readonly nodeId: NodeId;
+      readonly error: string;
+      // True when the error policy routed or continued past the failure
+      readonly handled: boolean;
+      // What a handled failure produced instead, e.g. the error port
+      readonly outputs?: NodeOutputs;
+      readonly durationMs: number;
+    }
+  | {
+      readonly type: 'node-skipped';
+      readonly runId: RunId;
+      readonly timestamp: number;
+      readonly nodeId: NodeId;
+    }
+  | {
+      // A value arriving at the node did not match its input port type
+      readonly type: 'type-violation';
+      readonly runId: RunId;
+      readonly timestamp: number;
+      readonly nodeId: NodeId;
+      readonly violation: TypeViolation;
+      // Whether the violation failed the node
+      readonly strict: boolean;
+    }
+  | {
+      readonly type: 'log';
+      readonly runId: RunId;
+      readonly timestamp: number;
+      readonly nodeId?: NodeId;
+      readonly message: string;
+    }
+  | {
+      readonly type: 'run-finished';
+      readonly runId: RunId;
+      readonly timestamp: number;
+      readonly workflowId: WorkflowId;
+      readonly success: boolean;
+      readonly error?: string;
+      readonly durationMs: number;
+    };
+
+// Where a node stands in the current run, as shown on the canvas
+export type NodeRunStatus =
+  | 'pending'
+  | 'paused'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'skipped';
+
+export type ExecutionEventType = ExecutionEvent['type'];
+
+export type ExecutionEventOf<T extends ExecutionEventType> = Extract<
+  ExecutionEvent,
+  { readonly type: T }
+>;
+
+// Events about a single node, as opposed to the run as a whole
+export type NodeExecutionEvent = Exclude<
+  ExecutionEvent,
+  { readonly type: 'run-started' | 'run-finished' }
+>;
+
+// An event before the emitter stamps it with the run id and time
+export type ExecutionEventInput = ExecutionEvent extends infer E
+  ? E extends ExecutionEvent
+    ? Omit<E, 'runId' | 'timestamp'>
+    : never
+  : never;
+
+export type ExecutionEventListener<
+  T extends ExecutionEventType = ExecutionEventType,
+> = (event: ExecutionEventOf<T>) => void;
@@ -0,0 +1,156 @@
+/**
+ * Execution Type System - Contracts between the executor and node executors
+ * Demonstrates: Interface Segregation, Generic Constraints, Extensibility
+ */
+
+import type {
+  WorkflowNode,
+  WorkflowGraph,
+  ExecutionContext,
+  ExecutionResult,
+  NodeId,
+  EdgeId,
+  BudgetLimit,
+} from './core';
+import type { ExpressionCompiler } from './expression';
+import type { WorkflowRepository } from './graph';
+
+// Values gathered from connected outputs, keyed by input port id
+export type NodeInputs = Record<string, unknown>;
+
+// Values produced by a node, keyed by output port id
+export type NodeOutputs = Record<string, unknown>;
+
+// Output value marking a branch port as not taken. Nodes fed by an inactive
+// port are skipped, and so is everything downstream of them.
+export const INACTIVE_BRANCH: unique symbol = Symbol('inactive-branch');
+export type InactiveBranch = typeof INACTIVE_BRANCH;
+
+// Per-node view of the run handed to every node executor
+export interface NodeExecutionContext extends ExecutionContext {
+  readonly expressions: ExpressionCompiler;
+  // Aborted when the node times out or the run is cancelled
+  readonly signal: AbortSignal;
+  // Saved workflows that subworkflow nodes may run
+  readonly workflows: WorkflowRepository;
+  log(message: string): void;
+  // Run an embedded graph as a nested run that shares this run's executors
+  // and limits, and is interrupted along with the calling node
+  runSubgraph(
+    graph: WorkflowGraph,
+    variables: ReadonlyMap<string, unknown>,
+    options?: SubgraphOptions
+  ): Promise<ExecutionResult>;
+}
+
+export interface SubgraphOptions {
+  // Outputs of nodes that are taken as given instead of executed
+  readonly seeds?: ReadonlyMap<NodeId, NodeOutputs>;
+}
+
+// Structured, per-node execution errors (discriminated union)
+export type ExecutionError =
+  | {
+      readonly type: 'expression-syntax';
+      readonly nodeId: NodeId;
+      readonly field: string;
+      readonly source: string;
+      readonly message: string;
+      readonly position: number;
+    }
+  | {
+      readonly type: 'invalid-retry-policy';
+      readonly nodeId: NodeId;
+      readonly message: string;
+    }
+  | {
+      readonly type: 'timeout';
+      readonly nodeId: NodeId;
+      readonly scope: 'run' | 'node';
+      readonly timeoutMs: number;
+    }
+  | {
+      readonly type: 'aborted';
+      readonly nodeId: NodeId;
+      readonly reason: string;
+    }
+  | {
+      readonly type: 'budget-exceeded';
+      readonly nodeId: NodeId;
+      readonly limit: BudgetLimit;
+      readonly max: number;
+      readonly used: number;
+    };
+
+// Value emitted on a node's `error` port when its failure is handled
+export interface NodeFailure {
+  readonly nodeId: NodeId;
+  readonly name: string;
+  readonly message: string;
+  readonly attempts: number;
+}
+
+// An effect a dry run stubbed out, with what it would have sent
+export interface IntendedSideEffect {
+  readonly nodeId: NodeId;
+  readonly nodeType: string;
+  readonly label: string;
+  readonly inputs: NodeInputs;
+  readonly config: Readonly<Record<string, unknown>>;
+}
+
+// A value that did not match the type of the input port it arrived at
+export interface TypeViolation {
+  readonly edgeId: EdgeId;
+  readonly source: NodeId;
+  readonly sourcePort: string;
+  readonly target: NodeId;
+  readonly targetPort: string;
+  // The target port type, formatted
+  readonly expected: string;
+  // Where in the value it fails, e.g. `user.tags[0]`; empty at the root
+  readonly path: string;
+  readonly message: string;
+}
+
+// One try at executing a node; retried nodes record several
+export interface NodeAttempt {
+  readonly attempt: number;
+  readonly startedAt: number;
+  readonly durationMs: number;
+  readonly error?: string;
+  // Set when another attempt follows after this delay
+  readonly retryDelayMs?: number;
+}
+
+// A unit of node behaviour, resolved by the executor per `node.type`
+export interface NodeExecutor<N extends WorkflowNode = WorkflowNode> {
+  readonly id: string;
+
+  canExecute(nodeType: string): boolean;
+  // Called once per run before any node executes, e.g. to compile expressions
+  prepare?(
+    node: N,
+    expressions: ExpressionCompiler
+  ): ReadonlyArray<ExecutionError>;
+  execute(
+    node: N,
+    inputs: NodeInputs,
+    context: NodeExecutionContext
+  ): Promise<NodeOutputs> | NodeOutputs;
+}
+
+// Narrow the node union to the member declaring a given type literal
+export type NodeOfType<T extends WorkflowNode['type']> =
+  WorkflowNode extends infer N
+    ? N extends WorkflowNode
+      ? T extends N['type']
+        ? N & { readonly type: T }
+        : never
+      : never
+    : never;
+
+// Executor bound to exactly one node type, inferred from the literal
+export type TypedNodeExecutor<T extends WorkflowNode['type']> = NodeExecutor<
+  NodeOfType<T>
+> & { readonly nodeType: T };
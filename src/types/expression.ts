@@ -0,0 +1,106 @@
+/**
+ * Expression Language Types - AST for sandboxed transform functions
+ * Demonstrates: Recursive Discriminated Unions, Template Literal Types
+ */
+
+export type BinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '%'
+  | '==='
+  | '!=='
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>=';
+
+export type LogicalOperator = '&&' | '||' | '??';
+
+export type UnaryOperator = '!' | '-' | '+' | 'typeof';
+
+// Expression AST (recursive)
+export type ExpressionNode =
+  | { readonly kind: 'literal'; readonly value: unknown }
+  | { readonly kind: 'identifier'; readonly name: string }
+  | {
+      readonly kind: 'array';
+      readonly elements: ReadonlyArray<ExpressionNode>;
+    }
+  | {
+      readonly kind: 'object';
+      readonly properties: ReadonlyArray<{
+        readonly key: string;
+        readonly value: ExpressionNode;
+      }>;
+    }
+  | {
+      readonly kind: 'member';
+      readonly object: ExpressionNode;
+      readonly property: ExpressionNode;
+      readonly computed: boolean;
+      readonly optional: boolean;
+    }
+  | {
+      readonly kind: 'call';
+      readonly callee: ExpressionNode;
+      readonly args: ReadonlyArray<ExpressionNode>;
+      readonly optional: boolean;
+    }
+  | {
+      readonly kind: 'unary';
+      readonly operator: UnaryOperator;
+      readonly argument: ExpressionNode;
+    }
+  | {
+      readonly kind: 'binary';
+      readonly operator: BinaryOperator;
+      readonly left: ExpressionNode;
+      readonly right: ExpressionNode;
+    }
+  | {
+      readonly kind: 'logical';
+      readonly operator: LogicalOperator;
+      readonly left: ExpressionNode;
+      readonly right: ExpressionNode;
+    }
+  | {
+      readonly kind: 'conditional';
+      readonly test: ExpressionNode;
+      readonly consequent: ExpressionNode;
+      readonly alternate: ExpressionNode;
+    }
+  | {
+      readonly kind: 'arrow';
+      readonly params: ReadonlyArray<string>;
+      readonly body: ExpressionNode;
+    };
+
+export type ExpressionNodeKind = ExpressionNode['kind'];
+
+// Parse error with the offset into the source string
+export interface ExpressionSyntaxError {
+  readonly message: string;
+  readonly position: number;
+}
+
+// A parsed arrow function, ready to be applied to arguments
+export interface CompiledExpression {
+  readonly source: string;
+  readonly params: ReadonlyArray<string>;
+  readonly ast: ExpressionNode;
+  apply(...args: ReadonlyArray<unknown>): unknown;
+}
+
+export type ExpressionCompileResult =
+  | { readonly success: true; readonly expression: CompiledExpression }
+  | { readonly success: false; readonly error: ExpressionSyntaxError };
+
+// Compiles expression sources, typically memoised for the duration of a run
+export interface ExpressionCompiler {
+  compile(source: string): ExpressionCompileResult;
+  get(source: string): CompiledExpression;
+}
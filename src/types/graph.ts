@@ -3,7 +3,8 @@
  * Demonstrates: Recursive Types, Phantom Types, Advanced Type Inference
  */
 
-import type { NodeId, EdgeId, WorkflowNode, Edge, WorkflowGraph } from './core';
+import type { NodeId, EdgeId, WorkflowId, WorkflowNode, Edge, WorkflowGraph } from './core';
+import type { ConverterKind } from './compatibility';
 
 // Phantom type for graph validation states
 export type GraphState = 'unvalidated' | 'validated' | 'invalid';
@@ -133,12 +134,20 @@ export const assertNever = (value: never): never => {
 // Graph validation errors with discriminated union
 export type GraphValidationError =
     | { readonly type: 'cycle'; readonly nodes: ReadonlyArray<NodeId> }
-    | { readonly type: 'unsatisfied-input'; readonly nodeId: NodeId; readonly portId: string }
+    | { readonly type: 'unsatisfied-input'; readonly nodeId: NodeId; readonly portId: string; readonly reason?: string }
     | { readonly type: 'invalid-connection'; readonly edgeId: EdgeId; readonly reason: string }
     | { readonly type: 'orphan-node'; readonly nodeId: NodeId }
     | { readonly type: 'duplicate-node-id'; readonly nodeId: NodeId }
     | { readonly type: 'duplicate-edge-id'; readonly edgeId: EdgeId }
-    | { readonly type: 'missing-node'; readonly nodeId: NodeId; readonly referencedBy: EdgeId };
+    | { readonly type: 'missing-node'; readonly nodeId: NodeId; readonly referencedBy: EdgeId }
+    | { readonly type: 'incompatible-operands'; readonly nodeId: NodeId; readonly operator: string; readonly reason: string }
+    | { readonly type: 'invalid-error-policy'; readonly nodeId: NodeId; readonly reason: string }
+    | { readonly type: 'invalid-subgraph'; readonly nodeId: NodeId; readonly reason: string }
+    | { readonly type: 'workflow-cycle'; readonly nodeId: NodeId; readonly workflows: ReadonlyArray<WorkflowId> };
+
+// Graph validation warnings: the graph runs, but maybe not as intended
+export type GraphValidationWarning =
+    | { readonly type: 'lossy-coercion'; readonly edgeId: EdgeId; readonly converter: ConverterKind; readonly reason: string };
 
 // Compile-time graph constraints
 export type ValidGraph<G extends WorkflowGraph> = G extends WorkflowGraph
@@ -162,6 +171,12 @@ export interface SubGraph {
     readonly children: ReadonlyArray<SubGraph>;
 }
 
+// Saved workflows that subworkflow nodes can reference by id
+export interface WorkflowRepository {
+    get(id: WorkflowId): WorkflowGraph | undefined;
+    list(): ReadonlyArray<WorkflowGraph>;
+}
+
 // Type-safe graph query builder
 export interface GraphQuery<T extends WorkflowNode = WorkflowNode> {
     where(predicate: (node: WorkflowNode) => node is T): GraphQuery<T>;
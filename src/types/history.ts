@@ -0,0 +1,52 @@
+/**
+ * Run History Types
+ * Demonstrates: Discriminated Unions, Readonly Records
+ */
+
+import type { ExecutionMode, NodeId, RunId, WorkflowId } from './core';
+import type {
+  IntendedSideEffect,
+  NodeOutputs,
+  TypeViolation,
+} from './execution';
+
+export type RunStatus = 'succeeded' | 'failed' | 'cancelled';
+
+// A finished run as kept in the history panel
+export interface RunRecord {
+  readonly runId: RunId;
+  readonly workflowId: WorkflowId;
+  readonly startedAt: number;
+  readonly durationMs: number;
+  readonly status: RunStatus;
+  readonly mode: ExecutionMode;
+  readonly error?: string;
+  readonly logs: ReadonlyArray<string>;
+  readonly nodeOutputs: Readonly<Record<NodeId, NodeOutputs>>;
+  // What a dry run's stubbed effects would have done
+  readonly sideEffects?: ReadonlyArray<IntendedSideEffect>;
+  // Values that did not match the port type they arrived at
+  readonly typeViolations?: ReadonlyArray<TypeViolation>;
+}
+
+// One port whose output differs between two runs
+export type OutputChange =
+  | {
+      readonly kind: 'added';
+      readonly nodeId: NodeId;
+      readonly portId: string;
+      readonly after: unknown;
+    }
+  | {
+      readonly kind: 'removed';
+      readonly nodeId: NodeId;
+      readonly portId: string;
+      readonly before: unknown;
+    }
+  | {
+      readonly kind: 'changed';
+      readonly nodeId: NodeId;
+      readonly portId: string;
+      readonly before: unknown;
+      readonly after: unknown;
+    };
@@ -0,0 +1,47 @@
+/**
+ * Execution Journal Types - Durable record of a run, one entry per event
+ * Demonstrates: Discriminated Unions, Interface Segregation, Async Contracts
+ */
+
+import type { NodeId, RunId, WorkflowId } from './core';
+import type { NodeAttempt } from './execution';
+
+// How a journaled node settled
+export type JournaledNodeStatus = 'executed' | 'skipped' | 'failed';
+
+export type JournalEntry =
+  | {
+      readonly type: 'run-started';
+      readonly runId: RunId;
+      readonly workflowId: WorkflowId;
+      readonly timestamp: number;
+      readonly resumed: boolean;
+    }
+  | {
+      readonly type: 'node-completed';
+      readonly runId: RunId;
+      readonly nodeId: NodeId;
+      readonly status: JournaledNodeStatus;
+      // Values of the node's taken output ports, keyed by port id
+      readonly outputs: Readonly<Record<string, unknown>>;
+      // Output ports that were not taken (inactive branches)
+      readonly inactivePorts: ReadonlyArray<string>;
+      readonly logs: ReadonlyArray<string>;
+      readonly attempts: ReadonlyArray<NodeAttempt>;
+    }
+  | {
+      readonly type: 'run-finished';
+      readonly runId: RunId;
+      readonly success: boolean;
+      readonly error?: string;
+    };
+
+export type JournalEntryType = JournalEntry['type'];
+
+// Pluggable persistence for journals; entries are read back in append order
+export interface JournalStore {
+  append(entry: JournalEntry): Promise<void>;
+  read(runId: RunId): Promise<ReadonlyArray<JournalEntry>>;
+  listRuns(): Promise<ReadonlyArray<RunId>>;
+  clear(runId: RunId): Promise<void>;
+}
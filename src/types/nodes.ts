@@ -9,20 +9,28 @@ import type {
   OutputPort,
   TriggerNode,
   ConditionNode,
+  LoopNode,
   TransformNode,
   EffectNode,
   DataNode,
+  FlowNode,
   PortType,
+  WorkflowNode,
+  WorkflowGraph,
+  WorkflowId,
 } from './core';
+import { createNodeId, createWorkflowId } from './core';
+import { arrayOf, typeVar } from './port-types';
+import type { ConverterKind } from './compatibility';
 
 // Port type helpers with literal inference
-const createInputPort = <T = unknown>(
+const createInputPort = (
   id: string,
   name: string,
   portType: PortType,
   required = true,
   description?: string
-): InputPort<T> => ({
+): InputPort => ({
   id,
   name,
   portType,
@@ -31,12 +39,12 @@ const createInputPort = <T = unknown>(
   direction: 'input' as const,
 });
 
-const createOutputPort = <T = unknown>(
+const createOutputPort = (
   id: string,
   name: string,
   portType: PortType,
   description?: string
-): OutputPort<T> => ({
+): OutputPort => ({
   id,
   name,
   portType,
@@ -157,6 +165,56 @@ export const createIfConditionNode = (
   position,
 });
 
+// Switch case: matches by strict equality or by a predicate expression
+export type SwitchCase =
+  | {
+      readonly id: string;
+      readonly label: string;
+      readonly match: 'value';
+      readonly value: unknown;
+    }
+  | {
+      readonly id: string;
+      readonly label: string;
+      readonly match: 'predicate';
+      readonly predicate: string;
+    };
+
+export const SWITCH_DEFAULT_PORT = 'default';
+
+const defaultSwitchCases: ReadonlyArray<SwitchCase> = [
+  { id: 'case1', label: 'Case 1', match: 'value', value: 'case1' },
+  { id: 'case2', label: 'Case 2', match: 'value', value: 'case2' },
+];
+
+// Read the cases of a switch node, accepting the legacy `string[]` form
+export const getSwitchCases = (
+  node: ConditionNode
+): ReadonlyArray<SwitchCase> => {
+  const cases = node.data?.cases;
+  if (!Array.isArray(cases)) {
+    return [];
+  }
+  return cases.map((c: unknown) =>
+    typeof c === 'string'
+      ? { id: c, label: c, match: 'value' as const, value: c }
+      : (c as SwitchCase)
+  );
+};
+
+// One output port per case, followed by the default port
+const createSwitchOutputs = (
+  cases: ReadonlyArray<SwitchCase>
+): OutputPort[] => [
+  ...cases.map((c) =>
+    createOutputPort(c.id, c.label, { kind: 'boolean', type: true })
+  ),
+  createOutputPort(SWITCH_DEFAULT_PORT, 'Default', {
+    kind: 'boolean',
+    type: true,
+  }),
+];
+
 // Switch Condition Node
 export const createSwitchConditionNode = (
   id: NodeId,
@@ -176,17 +234,102 @@ export const createSwitchConditionNode = (
       'Value to switch on'
     ),
   ],
-  outputs: [
-    createOutputPort('case1', 'Case 1', { kind: 'boolean', type: true }),
-    createOutputPort('case2', 'Case 2', { kind: 'boolean', type: true }),
-    createOutputPort('default', 'Default', { kind: 'boolean', type: true }),
-  ],
+  outputs: createSwitchOutputs(defaultSwitchCases),
   position,
   data: {
-    cases: ['case1', 'case2'],
+    cases: defaultSwitchCases,
   },
 });
 
+// Replace the cases of a switch node, regenerating its output ports
+export const withSwitchCases = (
+  node: ConditionNode,
+  cases: ReadonlyArray<SwitchCase>
+): ConditionNode => {
+  const ids = cases.map((c) => c.id);
+  if (
+    new Set(ids).size !== ids.length ||
+    ids.includes(SWITCH_DEFAULT_PORT) ||
+    ids.includes(ERROR_PORT)
+  ) {
+    throw new Error(
+      `Switch case ids must be unique and not '${SWITCH_DEFAULT_PORT}' or '${ERROR_PORT}'`
+    );
+  }
+  return {
+    ...node,
+    outputs: [
+      ...createSwitchOutputs(cases),
+      ...node.outputs.filter((p) => p.id === ERROR_PORT),
+    ],
+    data: { ...node.data, cases },
+  };
+};
+
+// Operand kinds accepted by each compare operator, per input port.
+// `sameKind` additionally requires both operands to share a kind.
+export interface CompareOperatorSpec {
+  readonly label: string;
+  readonly a: ReadonlyArray<PortType['kind']>;
+  readonly b: ReadonlyArray<PortType['kind']>;
+  readonly sameKind?: boolean;
+}
+
+const ORDERED_KINDS = ['number', 'string'] as const;
+
+export const compareOperators = {
+  '===': { label: 'equals', a: ['any'], b: ['any'] },
+  '!==': { label: 'does not equal', a: ['any'], b: ['any'] },
+  '<': {
+    label: 'less than',
+    a: ORDERED_KINDS,
+    b: ORDERED_KINDS,
+    sameKind: true,
+  },
+  '<=': {
+    label: 'less than or equal',
+    a: ORDERED_KINDS,
+    b: ORDERED_KINDS,
+    sameKind: true,
+  },
+  '>': {
+    label: 'greater than',
+    a: ORDERED_KINDS,
+    b: ORDERED_KINDS,
+    sameKind: true,
+  },
+  '>=': {
+    label: 'greater than or equal',
+    a: ORDERED_KINDS,
+    b: ORDERED_KINDS,
+    sameKind: true,
+  },
+  contains: { label: 'contains', a: ['string', 'array'], b: ['any'] },
+  startsWith: { label: 'starts with', a: ['string'], b: ['string'] },
+  matches: { label: 'matches regex', a: ['string'], b: ['string'] },
+  deepEqual: { label: 'deep equals', a: ['any'], b: ['any'] },
+  // `b` is a `[min, max]` tuple or a `{ min, max }` object, bounds inclusive
+  inRange: { label: 'in range', a: ['number'], b: ['array', 'object'] },
+} as const satisfies Record<string, CompareOperatorSpec>;
+
+export type CompareOperator = keyof typeof compareOperators;
+export type OrderingOperator = '<' | '<=' | '>' | '>=';
+
+// Port kinds an operator accepts for a given operand
+export type CompareOperandKind<
+  Op extends CompareOperator,
+  Operand extends 'a' | 'b',
+> = (typeof compareOperators)[Op][Operand][number];
+
+// Runtime value type of an operand, derived from its accepted port kinds
+export type CompareOperand<
+  Op extends CompareOperator,
+  Operand extends 'a' | 'b',
+> = Extract<PortType, { kind: CompareOperandKind<Op, Operand> }>['type'];
+
+export const isCompareOperator = (value: unknown): value is CompareOperator =>
+  typeof value === 'string' && Object.hasOwn(compareOperators, value);
+
 // Compare Condition Node
 export const createCompareConditionNode = (
   id: NodeId,
@@ -211,10 +354,90 @@ export const createCompareConditionNode = (
   ],
   position,
   data: {
-    operator: '===',
+    operator: '===' satisfies CompareOperator,
   },
 });
 
+// ForEach body: an embedded graph run once per element. Each element is fed
+// to the body's manual trigger; `result` picks the value collected per element
+// from a terminal body node, or the body's whole output when unset.
+export interface ForEachBody {
+  readonly graph: WorkflowGraph;
+  readonly result?: { readonly nodeId: NodeId; readonly portId: string };
+}
+
+// Output port of the body's manual trigger that receives the element
+export const FOR_EACH_ITEM_PORT = 'data';
+
+export const getForEachBody = (node: WorkflowNode): ForEachBody | undefined => {
+  const body = node.data?.body as ForEachBody | undefined;
+  return body && Array.isArray(body.graph?.nodes) ? body : undefined;
+};
+
+// The body node receiving each element
+export const getForEachItemNode = (
+  graph: WorkflowGraph
+): WorkflowNode | undefined =>
+  graph.nodes.find((n) => n.type === 'trigger.manual');
+
+// Elements run at once; 1 (the default) runs them in order
+export const getForEachConcurrency = (node: WorkflowNode): number => {
+  const concurrency = node.data?.concurrency;
+  return typeof concurrency === 'number' &&
+    Number.isInteger(concurrency) &&
+    concurrency >= 1
+    ? concurrency
+    : 1;
+};
+
+// ForEach Node. Engine-only for now: the canvas has no editor for the body
+// graph, so the palette does not offer it
+export const createForEachNode = (
+  id: NodeId,
+  position: { x: number; y: number }
+): LoopNode => {
+  const itemNodeId = createNodeId('item');
+  const body: ForEachBody = {
+    graph: {
+      id: createWorkflowId(`${id}-body`),
+      name: 'ForEach body',
+      nodes: [createManualTriggerNode(itemNodeId, { x: 0, y: 0 })],
+      edges: [],
+    },
+    result: { nodeId: itemNodeId, portId: FOR_EACH_ITEM_PORT },
+  };
+
+  return {
+    id,
+    type: 'logic.forEach' as const,
+    category: 'logic' as const,
+    label: 'For Each',
+    description: 'Run a subgraph per array element',
+    inputs: [
+      createInputPort(
+        'items',
+        'Items',
+        { kind: 'array', type: [] },
+        true,
+        'Elements to iterate'
+      ),
+    ],
+    outputs: [
+      createOutputPort(
+        'results',
+        'Results',
+        { kind: 'array', type: [] },
+        'One result per element'
+      ),
+    ],
+    position,
+    data: {
+      body,
+      concurrency: 1,
+    },
+  };
+};
+
 // Map Transform Node
 export const createMapTransformNode = (
   id: NodeId,
@@ -229,7 +452,7 @@ export const createMapTransformNode = (
     createInputPort(
       'input',
       'Input',
-      { kind: 'array', type: [] },
+      arrayOf(typeVar('T')),
       true,
       'Input array'
     ),
@@ -238,7 +461,7 @@ export const createMapTransformNode = (
     createOutputPort(
       'output',
       'Output',
-      { kind: 'array', type: [] },
+      arrayOf(typeVar('U')),
       'Transformed array'
     ),
   ],
@@ -262,7 +485,7 @@ export const createFilterTransformNode = (
     createInputPort(
       'input',
       'Input',
-      { kind: 'array', type: [] },
+      arrayOf(typeVar('T')),
       true,
       'Input array'
     ),
@@ -271,7 +494,7 @@ export const createFilterTransformNode = (
     createOutputPort(
       'output',
       'Output',
-      { kind: 'array', type: [] },
+      arrayOf(typeVar('T')),
       'Filtered array'
     ),
   ],
@@ -295,16 +518,121 @@ export const createReduceTransformNode = (
     createInputPort(
       'input',
       'Input',
-      { kind: 'array', type: [] },
+      arrayOf(typeVar('T')),
       true,
       'Input array'
     ),
+    createInputPort('initial', 'Initial', typeVar('U'), false, 'Initial value'),
+  ],
+  outputs: [
+    createOutputPort('output', 'Output', typeVar('U'), 'Reduced value'),
+  ],
+  position,
+  data: {
+    reduceFunction: '(acc, x) => acc + x',
+  },
+});
+
+// To String Converter Node
+export const createToStringTransformNode = (
+  id: NodeId,
+  position: { x: number; y: number }
+): TransformNode => ({
+  id,
+  type: 'transform.toString' as const,
+  category: 'transform' as const,
+  label: 'To String',
+  description: 'Convert a value to text, objects as JSON',
+  inputs: [
     createInputPort(
-      'initial',
-      'Initial',
+      'input',
+      'Input',
       { kind: 'any', type: undefined },
-      false,
-      'Initial value'
+      true,
+      'Value to convert'
+    ),
+  ],
+  outputs: [
+    createOutputPort('output', 'Output', { kind: 'string', type: '' }, 'Text'),
+  ],
+  position,
+  data: {},
+});
+
+// Parse Number Converter Node
+export const createParseNumberTransformNode = (
+  id: NodeId,
+  position: { x: number; y: number }
+): TransformNode => ({
+  id,
+  type: 'transform.parseNumber' as const,
+  category: 'transform' as const,
+  label: 'Parse Number',
+  description: 'Parse text as a number, failing on anything else',
+  inputs: [
+    createInputPort(
+      'input',
+      'Input',
+      { kind: 'string', type: '' },
+      true,
+      'Text to parse'
+    ),
+  ],
+  outputs: [
+    createOutputPort(
+      'output',
+      'Output',
+      { kind: 'number', type: 0 },
+      'Parsed number'
+    ),
+  ],
+  position,
+  data: {},
+});
+
+// Wrap In Array Converter Node
+export const createWrapInArrayTransformNode = (
+  id: NodeId,
+  position: { x: number; y: number }
+): TransformNode => ({
+  id,
+  type: 'transform.wrapInArray' as const,
+  category: 'transform' as const,
+  label: 'Wrap in Array',
+  description: 'Wrap a value in a one-element array',
+  inputs: [
+    createInputPort('input', 'Input', typeVar('T'), true, 'Value to wrap'),
+  ],
+  outputs: [
+    createOutputPort(
+      'output',
+      'Output',
+      arrayOf(typeVar('T')),
+      'One-element array'
+    ),
+  ],
+  position,
+  data: {},
+});
+
+// Pick Field Converter Node
+export const createPickFieldTransformNode = (
+  id: NodeId,
+  position: { x: number; y: number },
+  field = ''
+): TransformNode => ({
+  id,
+  type: 'transform.pickField' as const,
+  category: 'transform' as const,
+  label: 'Pick Field',
+  description: 'Read one field of an object by dotted path',
+  inputs: [
+    createInputPort(
+      'input',
+      'Input',
+      { kind: 'object', type: {} },
+      true,
+      'Object to read'
     ),
   ],
   outputs: [
@@ -312,15 +640,35 @@ export const createReduceTransformNode = (
       'output',
       'Output',
       { kind: 'any', type: undefined },
-      'Reduced value'
+      'Field value'
     ),
   ],
   position,
-  data: {
-    reduceFunction: '(acc, x) => acc + x',
-  },
+  data: { field },
 });
 
+/**
+ * Converter node performing a coercion; `field` is the path a Pick Field
+ * node reads
+ */
+export const createConverterNode = (
+  converter: ConverterKind,
+  id: NodeId,
+  position: { x: number; y: number },
+  field?: string
+): TransformNode => {
+  switch (converter) {
+    case 'toString':
+      return createToStringTransformNode(id, position);
+    case 'parseNumber':
+      return createParseNumberTransformNode(id, position);
+    case 'wrapInArray':
+      return createWrapInArrayTransformNode(id, position);
+    case 'pickField':
+      return createPickFieldTransformNode(id, position, field);
+  }
+};
+
 // HTTP Effect Node
 export const createHttpEffectNode = (
   id: NodeId,
@@ -447,7 +795,7 @@ export const createDbEffectNode = (
 export const createConstantDataNode = (
   id: NodeId,
   position: { x: number; y: number },
-  value: unknown
+  value: unknown = null
 ): DataNode => ({
   id,
   type: 'data.constant' as const,
@@ -471,7 +819,7 @@ export const createConstantDataNode = (
 export const createVariableDataNode = (
   id: NodeId,
   position: { x: number; y: number },
-  variableName: string
+  variableName = 'variable'
 ): DataNode => ({
   id,
   type: 'data.variable' as const,
@@ -491,6 +839,97 @@ export const createVariableDataNode = (
   data: { variableName },
 });
 
+// Subworkflow ports mirror the referenced workflow: one input per trigger
+// output port and one output per terminal node output port
+export const subworkflowPortId = (nodeId: NodeId, portId: string): string =>
+  `${nodeId}.${portId}`;
+
+export const getSubworkflowId = (
+  node: WorkflowNode
+): WorkflowId | undefined => {
+  const workflowId = node.data?.workflowId;
+  return typeof workflowId === 'string'
+    ? createWorkflowId(workflowId)
+    : undefined;
+};
+
+export const getWorkflowTriggerNodes = (
+  graph: WorkflowGraph
+): ReadonlyArray<WorkflowNode> =>
+  graph.nodes.filter((n) => n.category === 'trigger');
+
+export const getWorkflowTerminalNodes = (
+  graph: WorkflowGraph
+): ReadonlyArray<WorkflowNode> =>
+  graph.nodes.filter((n) => !graph.edges.some((e) => e.source === n.id));
+
+// Subworkflow Node
+export const createSubworkflowNode = (
+  id: NodeId,
+  position: { x: number; y: number }
+): FlowNode => ({
+  id,
+  type: 'flow.subworkflow' as const,
+  category: 'flow' as const,
+  label: 'Subworkflow',
+  description: 'Run another workflow',
+  inputs: [],
+  outputs: [],
+  position,
+  data: {},
+});
+
+// Point a subworkflow node at a workflow, regenerating its ports
+export const withSubworkflow = (
+  node: FlowNode,
+  workflow: WorkflowGraph
+): FlowNode => ({
+  ...node,
+  label: workflow.name,
+  inputs: getWorkflowTriggerNodes(workflow).flatMap((trigger) =>
+    trigger.outputs.map((port) =>
+      createInputPort(
+        subworkflowPortId(trigger.id, port.id),
+        `${trigger.label} · ${port.name}`,
+        port.portType,
+        false,
+        port.description
+      )
+    )
+  ),
+  outputs: [
+    ...getWorkflowTerminalNodes(workflow).flatMap((terminal) =>
+      terminal.outputs.map((port) =>
+        createOutputPort(
+          subworkflowPortId(terminal.id, port.id),
+          `${terminal.label} · ${port.name}`,
+          port.portType,
+          port.description
+        )
+      )
+    ),
+    ...node.outputs.filter((p) => p.id === ERROR_PORT),
+  ],
+  data: { ...node.data, workflowId: workflow.id },
+});
+
+// The node interface whose type union includes `T`
+type NodeOfType<T extends WorkflowNode['type']> = WorkflowNode extends infer N
+  ? N extends WorkflowNode
+    ? T extends N['type']
+      ? N
+      : never
+    : never
+  : never;
+
+// One factory per node type, each callable with just an id and a position
+type NodeFactories = {
+  readonly [T in WorkflowNode['type']]: (
+    id: NodeId,
+    position: { x: number; y: number }
+  ) => NodeOfType<T>;
+};
+
 // Node factory registry with type safety
 export const nodeFactories = {
   'trigger.http': createHttpTriggerNode,
@@ -499,14 +938,127 @@ export const nodeFactories = {
   'logic.if': createIfConditionNode,
   'logic.switch': createSwitchConditionNode,
   'logic.compare': createCompareConditionNode,
+  'logic.forEach': createForEachNode,
   'transform.map': createMapTransformNode,
   'transform.filter': createFilterTransformNode,
   'transform.reduce': createReduceTransformNode,
+  'transform.toString': createToStringTransformNode,
+  'transform.parseNumber': createParseNumberTransformNode,
+  'transform.wrapInArray': createWrapInArrayTransformNode,
+  'transform.pickField': createPickFieldTransformNode,
   'effect.http': createHttpEffectNode,
   'effect.email': createEmailEffectNode,
   'effect.db': createDbEffectNode,
   'data.constant': createConstantDataNode,
   'data.variable': createVariableDataNode,
-} as const satisfies Record<string, (...args: unknown[]) => unknown>;
+  'flow.subworkflow': createSubworkflowNode,
+} as const satisfies NodeFactories;
 
 export type NodeFactoryType = keyof typeof nodeFactories;
+
+// Error handling: any node may expose an `error` output port, and
+// `node.data.onError` decides what a failure does:
+// - fail: the run fails (default when the error port is not connected)
+// - route: the error goes to the error port and regular outputs are not taken
+//   (default when the error port is connected)
+// - continue: regular outputs are left empty and downstream nodes still run
+export const ERROR_PORT = 'error';
+
+export const errorPolicies = ['fail', 'continue', 'route'] as const;
+export type ErrorPolicy = (typeof errorPolicies)[number];
+
+export const isErrorPolicy = (value: unknown): value is ErrorPolicy =>
+  errorPolicies.includes(value as ErrorPolicy);
+
+export const hasErrorPort = (node: WorkflowNode): boolean =>
+  node.outputs.some((p) => p.id === ERROR_PORT);
+
+// Resolve the policy of a node, given whether its error port is connected
+export const getErrorPolicy = (
+  node: WorkflowNode,
+  errorPortConnected: boolean
+): ErrorPolicy => {
+  const policy = node.data?.onError;
+  if (isErrorPolicy(policy)) {
+    return policy;
+  }
+  return errorPortConnected ? 'route' : 'fail';
+};
+
+// Set the error policy, adding the error port for `route` and `continue`
+export const withErrorPolicy = <N extends WorkflowNode>(
+  node: N,
+  policy: ErrorPolicy
+): N => {
+  const outputs = node.outputs.filter((p) => p.id !== ERROR_PORT);
+  return {
+    ...node,
+    outputs:
+      policy === 'fail'
+        ? outputs
+        : [
+            ...outputs,
+            createOutputPort(
+              ERROR_PORT,
+              'Error',
+              { kind: 'object', type: {} },
+              'Failure details when the node throws'
+            ),
+          ],
+    data: { ...node.data, onError: policy },
+  };
+};
+
+// Pinned output values by port id, stored in `node.data.pinnedOutputs`
+export type PinnedOutputs = Readonly<Record<string, unknown>>;
+
+export const getPinnedOutputs = (
+  node: WorkflowNode
+): PinnedOutputs | undefined => {
+  const pinned = node.data?.pinnedOutputs;
+  if (typeof pinned !== 'object' || pinned === null || Array.isArray(pinned)) {
+    return undefined;
+  }
+  return Object.keys(pinned).length > 0 ? (pinned as PinnedOutputs) : undefined;
+};
+
+// Pin a value on an output port; the executor uses it instead of running
+// the node
+export const withPinnedOutput = <N extends WorkflowNode>(
+  node: N,
+  portId: string,
+  value: unknown
+): N => {
+  if (!node.outputs.some((p) => p.id === portId)) {
+    throw new Error(`Cannot pin unknown output port: ${node.id}:${portId}`);
+  }
+  return {
+    ...node,
+    data: {
+      ...node.data,
+      pinnedOutputs: { ...getPinnedOutputs(node), [portId]: value },
+    },
+  };
+};
+
+// Unpin one output port, or every port when `portId` is omitted
+export const withoutPinnedOutput = <N extends WorkflowNode>(
+  node: N,
+  portId?: string
+): N => {
+  const data = Object.fromEntries(
+    Object.entries(node.data ?? {}).filter(([key]) => key !== 'pinnedOutputs')
+  );
+  const remaining = Object.fromEntries(
+    Object.entries(getPinnedOutputs(node) ?? {}).filter(
+      ([id]) => portId !== undefined && id !== portId
+    )
+  );
+  return {
+    ...node,
+    data:
+      Object.keys(remaining).length > 0
+        ? { ...data, pinnedOutputs: remaining }
+        : data,
+  };
+};
@@ -9,8 +9,12 @@ import type {
   InputPort,
   OutputPort,
   NodeId,
+  RunId,
   WorkflowGraph,
 } from './core';
+import type { NodeExecutionContext } from './execution';
+import type { NodeExecutionEvent } from './events';
+import type { NamedTypeDefinition } from './type-registry';
 
 // Plugin metadata
 export interface PluginMetadata {
@@ -28,7 +32,8 @@ export type PluginCapability =
   | 'validator'
   | 'executor'
   | 'transformer'
-  | 'ui-extension';
+  | 'ui-extension'
+  | 'type-provider';
 
 // Base plugin interface with generic constraints
 export interface Plugin<
@@ -79,11 +84,29 @@ interface ValidationResult {
 export interface ExecutorPlugin extends Plugin<'executor'> {
   execute(
     node: WorkflowNode,
-    inputs: Record<string, unknown>
+    inputs: Record<string, unknown>,
+    context?: NodeExecutionContext
   ): Promise<Record<string, unknown>>;
   canExecute(nodeType: string): boolean;
 }
 
+// Narrow a plugin returned by `getByCapability('executor')`
+export const isExecutorPlugin = (plugin: Plugin): plugin is ExecutorPlugin =>
+  plugin.capabilities.includes('executor') &&
+  typeof (plugin as Partial<ExecutorPlugin>).execute === 'function' &&
+  typeof (plugin as Partial<ExecutorPlugin>).canExecute === 'function';
+
+// Type provider plugin, declaring named types for custom ports
+export interface TypeProviderPlugin extends Plugin<'type-provider'> {
+  readonly types: ReadonlyArray<NamedTypeDefinition>;
+}
+
+export const isTypeProviderPlugin = (
+  plugin: Plugin
+): plugin is TypeProviderPlugin =>
+  plugin.capabilities.includes('type-provider') &&
+  Array.isArray((plugin as Partial<TypeProviderPlugin>).types);
+
 // Transformer plugin
 export interface TransformerPlugin extends Plugin<'transformer'> {
   transform(data: unknown, config: Record<string, unknown>): unknown;
@@ -156,13 +179,29 @@ export type PluginEvent =
   | { readonly type: 'edge-created'; readonly edgeId: string }
   | { readonly type: 'edge-deleted'; readonly edgeId: string }
   | { readonly type: 'graph-validated'; readonly valid: boolean }
-  | { readonly type: 'execution-started'; readonly workflowId: string }
-  | { readonly type: 'execution-completed'; readonly workflowId: string };
+  | {
+      readonly type: 'execution-started';
+      readonly workflowId: string;
+      readonly runId: RunId;
+    }
+  | {
+      readonly type: 'execution-completed';
+      readonly workflowId: string;
+      readonly runId: RunId;
+      readonly success: boolean;
+    }
+  | NodeExecutionEvent;
 
 export interface PluginEventHandler {
   handleEvent(event: PluginEvent): Promise<void> | void;
 }
 
+// Any plugin may also handle events by implementing `handleEvent`
+export const isPluginEventHandler = <P extends Plugin>(
+  plugin: P
+): plugin is P & PluginEventHandler =>
+  typeof (plugin as Partial<PluginEventHandler>).handleEvent === 'function';
+
 // Generic plugin with type parameters
 export interface GenericPlugin<
   TInput,
@@ -0,0 +1,151 @@
+/**
+ * Structural Port Types - Builders and formatting for recursive port types
+ * Demonstrates: Recursive Discriminated Unions, Exhaustive Switches
+ */
+
+import type { LiteralValue, ObjectField, PortType } from './core';
+import { globalTypeRegistry } from './type-registry';
+
+// Builders, so callers describe the shape and the sample follows from it
+
+export const objectType = (
+  fields: Readonly<Record<string, ObjectField>>
+): PortType => ({ kind: 'object', type: {}, fields });
+
+export const arrayOf = (element: PortType): PortType => ({
+  kind: 'array',
+  type: [],
+  element,
+});
+
+export const tupleOf = (...elements: ReadonlyArray<PortType>): PortType => ({
+  kind: 'tuple',
+  type: [],
+  elements,
+});
+
+export const unionOf = (...members: ReadonlyArray<PortType>): PortType => ({
+  kind: 'union',
+  type: undefined,
+  members,
+});
+
+export const literalType = (value: LiteralValue): PortType => ({
+  kind: 'literal',
+  type: value,
+});
+
+export const nullable = (inner: PortType): PortType => ({
+  kind: 'nullable',
+  type: null,
+  inner,
+});
+
+export const typeVar = (name: string): PortType => ({
+  kind: 'var',
+  type: undefined,
+  name,
+});
+
+/**
+ * Whether a type mentions any type variable
+ */
+export const hasTypeVariables = (portType: PortType): boolean => {
+  switch (portType.kind) {
+    case 'var':
+      return true;
+    case 'object':
+      return Object.values(portType.fields ?? {}).some((field) =>
+        hasTypeVariables(field.type)
+      );
+    case 'array':
+      return portType.element ? hasTypeVariables(portType.element) : false;
+    case 'tuple':
+      return portType.elements.some(hasTypeVariables);
+    case 'union':
+      return portType.members.some(hasTypeVariables);
+    case 'nullable':
+      return hasTypeVariables(portType.inner);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Render a port type the way it reads in TypeScript, e.g.
+ * `{ id: number; tags?: array<string> }`
+ */
+export const formatPortType = (portType: PortType): string => {
+  switch (portType.kind) {
+    case 'any':
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'void':
+      return portType.kind;
+    case 'custom':
+      return portType.typeName;
+    case 'var':
+      return portType.name;
+    case 'object': {
+      if (!portType.fields) {
+        return 'object';
+      }
+      const fields = Object.entries(portType.fields).map(
+        ([name, field]) =>
+          `${name}${field.optional ? '?' : ''}: ${formatPortType(field.type)}`
+      );
+      return fields.length > 0 ? `{ ${fields.join('; ')} }` : '{}';
+    }
+    case 'array':
+      return portType.element
+        ? `array<${formatPortType(portType.element)}>`
+        : 'array';
+    case 'tuple':
+      return `[${portType.elements.map(formatPortType).join(', ')}]`;
+    case 'union':
+      return portType.members.map(formatPortType).join(' | ');
+    case 'literal':
+      return JSON.stringify(portType.type);
+    case 'nullable':
+      return `${formatPortType(portType.inner)} | null`;
+  }
+};
+
+const literalKind = (value: string | number | boolean) => {
+  switch (typeof value) {
+    case 'string':
+      return 'string';
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+  }
+};
+
+/**
+ * The flat kind values of a type share, e.g. `string` for a string literal;
+ * undefined when they have none in common
+ */
+export const baseKind = (portType: PortType): PortType['kind'] | undefined => {
+  switch (portType.kind) {
+    case 'literal':
+      return portType.type === null ? undefined : literalKind(portType.type);
+    case 'tuple':
+      return 'array';
+    case 'union': {
+      const kinds = new Set(portType.members.map(baseKind));
+      return kinds.size === 1 ? [...kinds][0] : undefined;
+    }
+    case 'nullable':
+    case 'var':
+      return undefined;
+    case 'custom': {
+      // Named types share the kind of what they are a subtype of
+      const [parent] = globalTypeRegistry.parentsOf(portType.typeName);
+      return parent ? baseKind(parent) : 'custom';
+    }
+    default:
+      return portType.kind;
+  }
+};
@@ -0,0 +1,126 @@
+/**
+ * Named Type Registry - Custom port types declared by plugins and users
+ * Demonstrates: Registry Pattern, Nominal Types over a Structural System
+ */
+
+import { z } from 'zod';
+import type { PortType } from './core';
+
+// A named type, used on ports as `{ kind: 'custom', typeName: name }`
+export interface NamedTypeDefinition {
+  readonly name: string;
+  readonly description?: string;
+  // The shape values of this type have; they fit ports of this shape too
+  readonly definition?: PortType;
+  // Checks values at runtime; takes precedence over `definition`
+  readonly schema?: z.ZodTypeAny;
+  // A port type this one is a subtype of, e.g. `string` for EmailAddress or
+  // another named type. A definition refines a structural supertype.
+  readonly supertype?: PortType;
+  // Display colour of ports of this type
+  readonly color?: string;
+}
+
+export class TypeRegistry {
+  private types: Map<string, NamedTypeDefinition>;
+
+  constructor(types: ReadonlyArray<NamedTypeDefinition> = []) {
+    this.types = new Map();
+    for (const type of types) {
+      this.register(type);
+    }
+  }
+
+  /**
+   * Register a named type; its supertypes must not lead back to it
+   */
+  register(type: NamedTypeDefinition): void {
+    if (this.types.has(type.name)) {
+      throw new Error(`Type already registered: ${type.name}`);
+    }
+    for (const name of this.namedSupertypes(type.supertype)) {
+      if (name === type.name) {
+        throw new Error(`Type ${type.name} cannot be its own supertype`);
+      }
+    }
+    this.types.set(type.name, type);
+  }
+
+  /**
+   * Unregister a named type; ports using it become plain nominal types
+   */
+  unregister(name: string): void {
+    this.types.delete(name);
+  }
+
+  get(name: string): NamedTypeDefinition | undefined {
+    return this.types.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.types.has(name);
+  }
+
+  list(): ReadonlyArray<NamedTypeDefinition> {
+    return Array.from(this.types.values());
+  }
+
+  /**
+   * The types a named type is known to fit besides itself: its definition
+   * and named supertype, or a structural supertype when it has no definition
+   * to refine it
+   */
+  parentsOf(name: string): ReadonlyArray<PortType> {
+    const type = this.types.get(name);
+    if (!type?.definition) {
+      return type?.supertype ? [type.supertype] : [];
+    }
+    return type.supertype?.kind === 'custom'
+      ? [type.definition, type.supertype]
+      : [type.definition];
+  }
+
+  // Names along a supertype chain, nearest first
+  private namedSupertypes(supertype: PortType | undefined): string[] {
+    const names: string[] = [];
+    let current = supertype;
+    while (current?.kind === 'custom' && !names.includes(current.typeName)) {
+      names.push(current.typeName);
+      current = this.types.get(current.typeName)?.supertype;
+    }
+    return names;
+  }
+}
+
+// Named types every registry starts with
+export const builtinNamedTypes: ReadonlyArray<NamedTypeDefinition> = [
+  {
+    name: 'EmailAddress',
+    description: 'An email address',
+    supertype: { kind: 'string', type: '' },
+    schema: z.string().email(),
+    color: '#14B8A6', // Teal 500
+  },
+  {
+    name: 'HttpRequest',
+    description: 'An HTTP request as received by an HTTP trigger',
+    supertype: { kind: 'object', type: {} },
+    definition: {
+      kind: 'object',
+      type: {},
+      fields: {
+        method: { type: { kind: 'string', type: '' } },
+        url: { type: { kind: 'string', type: '' } },
+        headers: { type: { kind: 'object', type: {} }, optional: true },
+        body: { type: { kind: 'any', type: undefined }, optional: true },
+      },
+    },
+    color: '#0EA5E9', // Sky 500
+  },
+];
+
+export const createDefaultTypeRegistry = (): TypeRegistry =>
+  new TypeRegistry(builtinNamedTypes);
+
+// The registry port types are resolved against
+export const globalTypeRegistry = createDefaultTypeRegistry();
@@ -3,11 +3,10 @@
  */
 
 import type { WorkflowGraph, NodeId } from "../types/core";
-import { WorkflowGraph, NodeId } from '../types/core';
 
 export const findPath = (
     graph: WorkflowGraph,
-    start: NodeId
+    start: NodeId,
     end: NodeId
 ): NodeId[] | null => {
     const visited = new Set<NodeId>();
@@ -0,0 +1,125 @@
+/**
+ * Run History Utilities
+ */
+
+import type { ExecutionContext, ExecutionResult, NodeId } from '../types/core';
+import { createNodeId } from '../types/core';
+import { INACTIVE_BRANCH, type NodeOutputs } from '../types/execution';
+import type { OutputChange, RunRecord, RunStatus } from '../types/history';
+import type { WorkflowExecutor } from '../engine/executor';
+import { deepEqual } from './value-helpers';
+
+const runStatus = (result: ExecutionResult): RunStatus => {
+  if (result.success) {
+    return 'succeeded';
+  }
+  return result.errors?.some((e) => e.type === 'aborted')
+    ? 'cancelled'
+    : 'failed';
+};
+
+/**
+ * Snapshot a finished run for the history
+ */
+export const createRunRecord = (
+  executor: WorkflowExecutor,
+  context: ExecutionContext,
+  result: ExecutionResult,
+  finishedAt: number = Date.now()
+): RunRecord => ({
+  runId: executor.getState().runId,
+  workflowId: context.workflowId,
+  startedAt: context.timestamp,
+  durationMs: finishedAt - context.timestamp,
+  status: runStatus(result),
+  mode: context.mode ?? 'live',
+  error: result.success ? undefined : result.error.message,
+  logs: [...result.logs],
+  nodeOutputs: executor.getNodeOutputs(),
+  sideEffects: result.sideEffects,
+  typeViolations: result.typeViolations,
+});
+
+/**
+ * Node outputs of a recorded run, in the shape the executor takes them
+ */
+export const priorOutputsOf = (
+  record: RunRecord
+): ReadonlyMap<NodeId, NodeOutputs> =>
+  new Map(
+    Object.entries(record.nodeOutputs).map(([nodeId, outputs]) => [
+      createNodeId(nodeId),
+      outputs,
+    ])
+  );
+
+/**
+ * Render a port value for display
+ */
+export const formatRunValue = (value: unknown): string => {
+  if (value === INACTIVE_BRANCH) {
+    return '(branch not taken)';
+  }
+  if (value === undefined) {
+    return 'undefined';
+  }
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+};
+
+/**
+ * Port outputs that differ from `before` to `after`, in node then port order
+ */
+export const diffRunOutputs = (
+  before: RunRecord,
+  after: RunRecord
+): OutputChange[] => {
+  const changes: OutputChange[] = [];
+  const nodeIds = new Set<NodeId>(
+    [...Object.keys(before.nodeOutputs), ...Object.keys(after.nodeOutputs)].map(
+      createNodeId
+    )
+  );
+
+  for (const nodeId of nodeIds) {
+    const beforePorts = before.nodeOutputs[nodeId] ?? {};
+    const afterPorts = after.nodeOutputs[nodeId] ?? {};
+    const portIds = new Set([
+      ...Object.keys(beforePorts),
+      ...Object.keys(afterPorts),
+    ]);
+
+    for (const portId of portIds) {
+      const inBefore = portId in beforePorts;
+      const inAfter = portId in afterPorts;
+      if (!inBefore) {
+        changes.push({
+          kind: 'added',
+          nodeId,
+          portId,
+          after: afterPorts[portId],
+        });
+      } else if (!inAfter) {
+        changes.push({
+          kind: 'removed',
+          nodeId,
+          portId,
+          before: beforePorts[portId],
+        });
+      } else if (!deepEqual(beforePorts[portId], afterPorts[portId])) {
+        changes.push({
+          kind: 'changed',
+          nodeId,
+          portId,
+          before: beforePorts[portId],
+          after: afterPorts[portId],
+        });
+      }
+    }
+  }
+
+  return changes;
+};
@@ -3,10 +3,27 @@
  */
 
 import type { PortType } from '../types/core';
+import { baseKind, formatPortType } from '../types/port-types';
+import { globalTypeRegistry } from '../types/type-registry';
+import type { NodeRunStatus } from '../types/events';
 
 export const getPortTypeColor = (portType: PortType): string => {
-  switch (portType.kind) {
+  if (portType.kind === 'nullable') {
+    return getPortTypeColor(portType.inner);
+  }
+  const named =
+    portType.kind === 'custom' && globalTypeRegistry.get(portType.typeName);
+  if (named && named.color) {
+    return named.color;
+  }
+  // Literals take the colour of their primitive kind; null is void-grey
+  const kind =
+    portType.kind === 'literal'
+      ? (baseKind(portType) ?? 'void')
+      : portType.kind;
+  switch (kind) {
     case 'any':
+    case 'var':
       return '#94A3B8'; // Slate 400
     case 'string':
       return '#10B981'; // Emerald 500
@@ -17,7 +34,10 @@ export const getPortTypeColor = (portType: PortType): string => {
     case 'object':
       return '#8B5CF6'; // Violet 500
     case 'array':
+    case 'tuple':
       return '#EC4899'; // Pink 500
+    case 'union':
+      return '#A3A3A3'; // Neutral 400
     case 'void':
       return '#6B7280'; // Gray 500
     case 'custom':
@@ -27,12 +47,8 @@ export const getPortTypeColor = (portType: PortType): string => {
   }
 };
 
-export const getPortTypeLabel = (portType: PortType): string => {
-  if (portType.kind === 'custom') {
-    return portType.typeName;
-  }
-  return portType.kind;
-};
+export const getPortTypeLabel = (portType: PortType): string =>
+  formatPortType(portType);
 
 export const getCategoryColor = (category: string): string => {
   switch (category) {
@@ -46,7 +62,26 @@ export const getCategoryColor = (category: string): string => {
       return '#EF4444'; // Red
     case 'data':
       return '#8B5CF6'; // Violet
+    case 'flow':
+      return '#06B6D4'; // Cyan
     default:
       return '#6B7280'; // Gray
   }
 };
+
+export const getRunStatusColor = (status: NodeRunStatus): string => {
+  switch (status) {
+    case 'pending':
+      return '#64748B'; // Slate 500
+    case 'paused':
+      return '#F59E0B'; // Amber 500
+    case 'running':
+      return '#3B82F6'; // Blue 500
+    case 'succeeded':
+      return '#10B981'; // Emerald 500
+    case 'failed':
+      return '#EF4444'; // Red 500
+    case 'skipped':
+      return '#94A3B8'; // Slate 400
+  }
+};
@@ -6,7 +6,7 @@ import { atoms } from '@metagptx/web-sdk/plugins';
 
 // https://vitejs.dev/config/
 // skipcq JS-0356
-export default defineConfig(({ mode }) => ({
+export default defineConfig(() => ({
   plugins: [
     viteSourceLocator({
       prefix: 'mgx',